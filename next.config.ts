@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // heic-convert loads a WebAssembly build of libheif at runtime.
+  serverExternalPackages: ["heic-convert"],
 };
 
 export default nextConfig;
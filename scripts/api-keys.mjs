@@ -0,0 +1,107 @@
+// Manages keys for the /api/v1 surface. Writes the same api-keys.json that
+// src/lib/api-keys.ts reads, so stop the server first on busy deployments.
+//
+//   npm run api-keys -- create <name>
+//   npm run api-keys -- list
+//   npm run api-keys -- revoke <id or prefix>
+
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const dataDirectory = process.env.DATA_DIR || path.join(process.cwd(), ".data");
+const filePath = path.join(dataDirectory, "api-keys.json");
+const prefixLength = 11;
+
+async function readAll() {
+  try {
+    const contents = JSON.parse(await readFile(filePath, "utf8"));
+    return Array.isArray(contents.records) ? contents.records : [];
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function writeAll(records) {
+  const temp = `${filePath}.${process.pid}.tmp`;
+
+  await mkdir(dataDirectory, { recursive: true });
+  await writeFile(temp, JSON.stringify({ records }, null, 2), "utf8");
+  await rename(temp, filePath);
+}
+
+async function create(name) {
+  if (!name?.trim()) {
+    throw new Error("Usage: api-keys create <name>");
+  }
+
+  const key = `cc_${randomBytes(24).toString("base64url")}`;
+  const now = new Date().toISOString();
+  const record = {
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    name: name.trim(),
+    prefix: key.slice(0, prefixLength),
+    keyHash: createHash("sha256").update(key).digest("hex"),
+  };
+
+  await writeAll([...(await readAll()), record]);
+
+  console.log(`Created key "${record.name}" (${record.id}).`);
+  console.log("Store it now; it cannot be shown again:");
+  console.log(key);
+}
+
+async function list() {
+  const records = await readAll();
+  if (records.length === 0) {
+    console.log("No API keys.");
+    return;
+  }
+
+  for (const record of records) {
+    const status = record.revokedAt ? `revoked ${record.revokedAt}` : "active";
+    console.log(`${record.id}  ${record.prefix}…  ${record.name}  (${status})`);
+  }
+}
+
+async function revoke(reference) {
+  const records = await readAll();
+  const matches = records.filter(
+    (record) =>
+      !record.revokedAt &&
+      (record.id === reference || record.prefix === reference),
+  );
+
+  if (!reference || matches.length !== 1) {
+    throw new Error("Usage: api-keys revoke <id or prefix of one active key>");
+  }
+
+  const now = new Date().toISOString();
+  await writeAll(
+    records.map((record) =>
+      record === matches[0]
+        ? { ...record, revokedAt: now, updatedAt: now }
+        : record,
+    ),
+  );
+
+  console.log(`Revoked key "${matches[0].name}".`);
+}
+
+const [command, argument] = process.argv.slice(2);
+const commands = { create, list, revoke };
+
+if (!commands[command]) {
+  console.error("Usage: api-keys <create|list|revoke> [name|id]");
+  process.exit(1);
+}
+
+try {
+  await commands[command](argument);
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
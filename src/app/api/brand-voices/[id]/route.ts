@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/api-keys";
+import { brandVoiceStore } from "@/lib/brand-voice-store";
+import { readBrandVoiceFields } from "@/lib/brand-voices";
+import { flaggedInputError } from "@/lib/generation/input-errors";
+import { moderateUserText } from "@/lib/generation/moderation";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = () =>
+  NextResponse.json({ error: "Brand voice not found" }, { status: 404 });
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const item = await brandVoiceStore.get(id);
+
+  return item ? NextResponse.json({ item }) : notFound();
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const denied = await requireApiKey(request);
+  if (denied) {
+    return denied;
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const fields = readBrandVoiceFields(body, true);
+
+  if (!fields.ok) {
+    return NextResponse.json({ error: fields.error }, { status: 400 });
+  }
+
+  const moderation = await moderateUserText(Object.values(fields.value).flat());
+  if (moderation.flagged) {
+    return NextResponse.json(
+      { error: flaggedInputError, moderation },
+      { status: 400 },
+    );
+  }
+
+  const item = await brandVoiceStore.update(id, fields.value);
+  return item ? NextResponse.json({ item }) : notFound();
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const denied = await requireApiKey(request);
+  if (denied) {
+    return denied;
+  }
+
+  const { id } = await params;
+  const removed = await brandVoiceStore.remove(id);
+
+  return removed ? new NextResponse(null, { status: 204 }) : notFound();
+}
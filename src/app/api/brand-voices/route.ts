@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/api-keys";
+import { brandVoiceStore } from "@/lib/brand-voice-store";
+import { readBrandVoiceFields } from "@/lib/brand-voices";
+import { flaggedInputError } from "@/lib/generation/input-errors";
+import { moderateUserText } from "@/lib/generation/moderation";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  const items = await brandVoiceStore.list();
+  items.sort((a, b) => a.name.localeCompare(b.name));
+
+  return NextResponse.json({ items });
+}
+
+/** The voice is added to prompts, so it is moderated like guidance. */
+export async function POST(request: Request) {
+  const denied = await requireApiKey(request);
+  if (denied) {
+    return denied;
+  }
+
+  const body = await request.json().catch(() => null);
+  const fields = readBrandVoiceFields(body);
+
+  if (!fields.ok) {
+    return NextResponse.json({ error: fields.error }, { status: 400 });
+  }
+
+  const moderation = await moderateUserText(Object.values(fields.value).flat());
+  if (moderation.flagged) {
+    return NextResponse.json(
+      { error: flaggedInputError, moderation },
+      { status: 400 },
+    );
+  }
+
+  const item = await brandVoiceStore.create(fields.value);
+  return NextResponse.json({ item }, { status: 201 });
+}
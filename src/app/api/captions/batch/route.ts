@@ -0,0 +1,156 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { createRequestSignal } from "@/lib/deadline";
+import { readPositiveInt } from "@/lib/env";
+import type { BatchEvent } from "@/lib/generation/batch";
+import {
+  readCacheMode,
+  readCaptionImage,
+  readCaptionSettings,
+} from "@/lib/generation/input";
+import {
+  inputError,
+  inputErrorResponse,
+} from "@/lib/generation/input-errors";
+import { moderateUserText } from "@/lib/generation/moderation";
+import {
+  resolveGenerationError,
+  runGeneration,
+} from "@/lib/generation/pipeline";
+import { recordHistory } from "@/lib/history-store";
+import { getModelProvider } from "@/lib/model-provider";
+import { checkRateLimit, rateLimitedResponse } from "@/lib/rate-limit";
+import { createEventStreamResponse } from "@/lib/sse";
+
+export const runtime = "nodejs";
+
+const defaultBatchConcurrency = 3;
+const defaultBatchMaxImages = 20;
+
+export async function POST(request: Request) {
+  const requestId = randomUUID();
+  const formData = await request.formData().catch(() => null);
+  if (!formData) {
+    return inputErrorResponse(inputError("body_invalid"), requestId);
+  }
+
+  let provider: ReturnType<typeof getModelProvider> | null = null;
+  try {
+    provider = getModelProvider();
+  } catch (error) {
+    console.error("Model provider misconfigured", error);
+  }
+
+  if (!provider?.isConfigured) {
+    return NextResponse.json(
+      { error: "Batch captioning needs a configured model provider." },
+      { status: 503 },
+    );
+  }
+
+  const parsed = await readCaptionSettings(formData);
+  if (!parsed.ok) {
+    return inputErrorResponse(parsed.error, requestId);
+  }
+
+  const settings = parsed.value;
+  const files = formData
+    .getAll("images")
+    .filter((entry): entry is File => entry instanceof File);
+  const maxImages = readPositiveInt(
+    process.env.BATCH_MAX_IMAGES,
+    defaultBatchMaxImages,
+  );
+
+  if (files.length === 0 || files.length > maxImages) {
+    return inputErrorResponse(
+      inputError("images_invalid", { min: 1, max: maxImages }),
+      requestId,
+    );
+  }
+
+  // One bucket token per request, one quota unit per image.
+  const rateLimit = await checkRateLimit(request, { cost: files.length });
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  const moderation = await moderateUserText([settings.guidance]);
+  if (moderation.flagged) {
+    return inputErrorResponse(inputError("guidance_flagged"), requestId, {
+      moderation,
+    });
+  }
+
+  const cache = readCacheMode(formData);
+  const concurrency = readPositiveInt(
+    process.env.BATCH_CONCURRENCY,
+    defaultBatchConcurrency,
+  );
+
+  return createEventStreamResponse<BatchEvent>(async (send) => {
+    send({ type: "batch-start", total: files.length, concurrency });
+
+    const outcomes = await mapWithConcurrency(
+      files,
+      concurrency,
+      async (file, index) => {
+        // The client has gone; leave the images that have not started.
+        if (request.signal.aborted) {
+          return false;
+        }
+
+        send({ type: "image-start", index, name: file.name });
+
+        const image = await readCaptionImage(file);
+        if (!image.ok) {
+          send({
+            type: "image-error",
+            index,
+            name: file.name,
+            error: image.error.message,
+          });
+          return false;
+        }
+
+        // The deadline applies to each image, not to the batch as a whole.
+        const signal = createRequestSignal(request);
+
+        try {
+          const input = { ...settings, image: image.value };
+          const { result, cached, source, fallbackReason } =
+            await runGeneration(input, { provider, signal, cache });
+          const historyId =
+            source === "fallback" ? null : await recordHistory(input, result);
+
+          send({
+            type: "image-done",
+            index,
+            name: file.name,
+            result,
+            historyId,
+            cached,
+            source,
+            fallbackReason,
+          });
+          return true;
+        } catch (error) {
+          const { body } = resolveGenerationError(error, null, signal);
+          send({
+            type: "image-error",
+            index,
+            name: file.name,
+            error: "error" in body ? body.error : "Something went wrong",
+          });
+          return false;
+        }
+      },
+    );
+
+    const succeeded = outcomes.filter(
+      (outcome) => outcome.ok && outcome.value,
+    ).length;
+    send({ type: "batch-done", succeeded, failed: files.length - succeeded });
+  });
+}
@@ -0,0 +1,144 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { createRequestSignal } from "@/lib/deadline";
+import type { CompareEvent } from "@/lib/generation/compare";
+import {
+  compareModes,
+  readCacheMode,
+  readCompareTones,
+  readGenerationInput,
+  readMode,
+} from "@/lib/generation/input";
+import {
+  inputError,
+  inputErrorResponse,
+} from "@/lib/generation/input-errors";
+import { moderateUserText } from "@/lib/generation/moderation";
+import {
+  resolveGenerationError,
+  runGeneration,
+} from "@/lib/generation/pipeline";
+import { recordHistory } from "@/lib/history-store";
+import { getModelProvider } from "@/lib/model-provider";
+import { checkRateLimit, rateLimitedResponse } from "@/lib/rate-limit";
+import { createEventStreamResponse } from "@/lib/sse";
+
+export const runtime = "nodejs";
+
+/**
+ * Drafts one image's captions, or one About text's bios, in every tone of
+ * the repeated `tones` field at once. Each tone succeeds or fails on its own.
+ */
+export async function POST(request: Request) {
+  const requestId = randomUUID();
+  const formData = await request.formData().catch(() => null);
+  if (!formData) {
+    return inputErrorResponse(inputError("body_invalid"), requestId);
+  }
+
+  let provider: ReturnType<typeof getModelProvider> | null = null;
+  try {
+    provider = getModelProvider();
+  } catch (error) {
+    console.error("Model provider misconfigured", error);
+  }
+
+  if (!provider?.isConfigured) {
+    return NextResponse.json(
+      { error: "Tone comparison needs a configured model provider." },
+      { status: 503 },
+    );
+  }
+
+  const mode = readMode(formData);
+  if (!mode || !compareModes.includes(mode)) {
+    return inputErrorResponse(
+      inputError("mode_invalid", { allowed: compareModes }),
+      requestId,
+    );
+  }
+
+  const tones = await readCompareTones(formData);
+  if (!tones.ok) {
+    return inputErrorResponse(tones.error, requestId);
+  }
+
+  // One bucket token per request, one quota unit per tone; checked before
+  // the image is decoded and resized.
+  const rateLimit = await checkRateLimit(request, { cost: tones.value.length });
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  // The shared settings are checked once, under the first tone; each run
+  // then swaps in its own.
+  formData.set("tone", tones.value[0].tone);
+  const parsed = await readGenerationInput(formData, mode);
+  if (!parsed.ok) {
+    return inputErrorResponse(parsed.error, requestId);
+  }
+
+  const base = parsed.value;
+  const moderation = await moderateUserText([base.guidance]);
+  if (moderation.flagged) {
+    return inputErrorResponse(inputError("guidance_flagged"), requestId, {
+      moderation,
+    });
+  }
+
+  const cache = readCacheMode(formData);
+
+  return createEventStreamResponse<CompareEvent>(async (send) => {
+    send({
+      type: "compare-start",
+      tones: tones.value.map((entry) => entry.tone),
+    });
+
+    const outcomes = await mapWithConcurrency(
+      tones.value,
+      tones.value.length,
+      async ({ tone, customTone }, index) => {
+        const signal = createRequestSignal(request);
+
+        try {
+          const input = { ...base, tone, customTone };
+          const { result, cached, source, fallbackReason } =
+            await runGeneration(input, { provider, signal, cache });
+          const historyId =
+            source === "fallback" ? null : await recordHistory(input, result);
+
+          send({
+            type: "tone-done",
+            index,
+            tone,
+            result,
+            historyId,
+            cached,
+            source,
+            fallbackReason,
+          });
+          return true;
+        } catch (error) {
+          const { body } = resolveGenerationError(error, null, signal);
+          send({
+            type: "tone-error",
+            index,
+            tone,
+            error: "error" in body ? body.error : "Something went wrong",
+          });
+          return false;
+        }
+      },
+    );
+
+    const succeeded = outcomes.filter(
+      (outcome) => outcome.ok && outcome.value,
+    ).length;
+    send({
+      type: "compare-done",
+      succeeded,
+      failed: tones.value.length - succeeded,
+    });
+  });
+}
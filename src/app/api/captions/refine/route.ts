@@ -0,0 +1,90 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { createRequestSignal } from "@/lib/deadline";
+import {
+  invalidModeError,
+  readGenerationInput,
+  readMode,
+} from "@/lib/generation/input";
+import {
+  inputError,
+  inputErrorResponse,
+} from "@/lib/generation/input-errors";
+import { moderateGenerationInput } from "@/lib/generation/moderation";
+import { resolveGenerationError } from "@/lib/generation/pipeline";
+import { readRefineRequest, runRefinement } from "@/lib/generation/refine";
+import { getModelProvider } from "@/lib/model-provider";
+import { checkRateLimit, rateLimitedResponse } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  const rateLimit = await checkRateLimit(request);
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  const requestId = randomUUID();
+  const signal = createRequestSignal(request);
+
+  try {
+    const formData = await request.formData();
+    const mode = readMode(formData);
+
+    if (!mode) {
+      return inputErrorResponse(invalidModeError, requestId);
+    }
+
+    let provider: ReturnType<typeof getModelProvider> | null = null;
+    try {
+      provider = getModelProvider();
+    } catch (error) {
+      console.error("Model provider misconfigured", error);
+    }
+
+    if (!provider?.isConfigured) {
+      return NextResponse.json(
+        { error: "Refining needs a configured model provider." },
+        { status: 503 },
+      );
+    }
+
+    const parsed = await readGenerationInput(formData, mode);
+    const refineRequest = readRefineRequest(formData, mode);
+
+    if (!parsed.ok) {
+      return inputErrorResponse(parsed.error, requestId);
+    }
+
+    if (!refineRequest.ok) {
+      return inputErrorResponse(refineRequest.error, requestId);
+    }
+
+    const screened = await moderateGenerationInput(parsed.value, [
+      {
+        text: refineRequest.value.instruction ?? "",
+        error: () => inputError("instruction_flagged"),
+      },
+      {
+        text: refineRequest.value.item.text,
+        error: () => inputError("item_flagged"),
+      },
+    ]);
+    if (screened.error) {
+      return inputErrorResponse(screened.error, requestId, {
+        moderation: screened.moderation,
+      });
+    }
+
+    const result = await runRefinement(screened.input, refineRequest.value, {
+      provider,
+      signal,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    // Placeholder copy is no use as a revision, so never fall back here.
+    const { status, body, headers } = resolveGenerationError(error, null, signal);
+    return NextResponse.json(body, { status, headers });
+  }
+}
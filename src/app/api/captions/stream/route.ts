@@ -0,0 +1,144 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { createRequestSignal } from "@/lib/deadline";
+import { resolveFallback } from "@/lib/generation/fallback";
+import {
+  invalidModeError,
+  readCacheMode,
+  readGenerationInput,
+  readMode,
+} from "@/lib/generation/input";
+import {
+  inputError,
+  inputErrorResponse,
+} from "@/lib/generation/input-errors";
+import { moderateGenerationInput } from "@/lib/generation/moderation";
+import {
+  resolveGenerationError,
+  runGeneration,
+} from "@/lib/generation/pipeline";
+import type { GenerationEvent, Mode } from "@/lib/generation/types";
+import { recordHistory } from "@/lib/history-store";
+import { getModelProvider } from "@/lib/model-provider";
+import { checkRateLimit, rateLimitedResponse } from "@/lib/rate-limit";
+import { createEventStreamResponse } from "@/lib/sse";
+
+export const runtime = "nodejs";
+
+const readingMessages: Record<Mode, string> = {
+  captions: "Reading your image…",
+  bio: "Reading your About text…",
+  "alt-text": "Reading your image…",
+  carousel: "Reading your slides…",
+  reply: "Reading the comments…",
+};
+
+export async function POST(request: Request) {
+  const rateLimit = await checkRateLimit(request);
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  const requestId = randomUUID();
+  const formData = await request.formData().catch(() => null);
+  if (!formData) {
+    return inputErrorResponse(inputError("body_invalid"), requestId);
+  }
+
+  const mode = readMode(formData);
+  if (!mode) {
+    return inputErrorResponse(invalidModeError, requestId);
+  }
+
+  const parsed = await readGenerationInput(formData, mode);
+  if (!parsed.ok) {
+    return inputErrorResponse(parsed.error, requestId);
+  }
+
+  let input = parsed.value;
+
+  let provider: ReturnType<typeof getModelProvider> | null = null;
+  try {
+    provider = getModelProvider();
+  } catch (error) {
+    console.error("Model provider misconfigured", error);
+  }
+
+  if (!provider?.isConfigured) {
+    const { status, body, headers } = resolveFallback(
+      input,
+      "not_configured",
+    );
+    if (!("items" in body)) {
+      return NextResponse.json(
+        { ...body, requestId },
+        { status, headers: { ...headers, "X-Request-Id": requestId } },
+      );
+    }
+
+    return createEventStreamResponse<GenerationEvent>(async (send) => {
+      send({ type: "fallback", reason: "not_configured" });
+      send({
+        type: "done",
+        result: body,
+        source: "fallback",
+        fallbackReason: "not_configured",
+      });
+    });
+  }
+
+  const activeProvider = provider;
+
+  const screened = await moderateGenerationInput(input);
+  if (screened.error) {
+    return inputErrorResponse(screened.error, requestId, {
+      moderation: screened.moderation,
+    });
+  }
+
+  input = screened.input;
+
+  const signal = createRequestSignal(request);
+
+  return createEventStreamResponse<GenerationEvent>(async (send) => {
+    send({ type: "status", message: readingMessages[mode] });
+
+    try {
+      const { result, cached, source, fallbackReason } = await runGeneration(
+        input,
+        {
+          provider: activeProvider,
+          onEvent: send,
+          signal,
+          cache: readCacheMode(formData),
+        },
+      );
+      // Placeholder copy is not a run worth restoring.
+      const historyId =
+        source === "fallback" ? null : await recordHistory(input, result);
+      send({
+        type: "done",
+        result,
+        historyId,
+        cached,
+        source,
+        fallbackReason,
+      });
+    } catch (error) {
+      const { status, body } = resolveGenerationError(error, input, signal);
+
+      if ("items" in body) {
+        send({ type: "fallback", reason: body.fallbackReason });
+        send({
+          type: "done",
+          result: body,
+          source: "fallback",
+          fallbackReason: body.fallbackReason,
+        });
+        return;
+      }
+
+      send({ type: "error", error: body.error, status, requestId });
+    }
+  });
+}
@@ -0,0 +1,97 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { createRequestSignal } from "@/lib/deadline";
+import {
+  invalidModeError,
+  readGenerationSettings,
+  readMode,
+} from "@/lib/generation/input";
+import {
+  inputError,
+  inputErrorResponse,
+} from "@/lib/generation/input-errors";
+import {
+  moderateUserParts,
+  numberedError,
+} from "@/lib/generation/moderation";
+import { resolveGenerationError } from "@/lib/generation/pipeline";
+import {
+  readTranslateRequest,
+  runTranslation,
+} from "@/lib/generation/translate";
+import { getModelProvider } from "@/lib/model-provider";
+import { checkRateLimit, rateLimitedResponse } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  const rateLimit = await checkRateLimit(request);
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  const requestId = randomUUID();
+  const signal = createRequestSignal(request);
+
+  try {
+    const formData = await request.formData();
+    const mode = readMode(formData);
+
+    if (!mode) {
+      return inputErrorResponse(invalidModeError, requestId);
+    }
+
+    let provider: ReturnType<typeof getModelProvider> | null = null;
+    try {
+      provider = getModelProvider();
+    } catch (error) {
+      console.error("Model provider misconfigured", error);
+    }
+
+    if (!provider?.isConfigured) {
+      return NextResponse.json(
+        { error: "Translating needs a configured model provider." },
+        { status: 503 },
+      );
+    }
+
+    const parsed = await readGenerationSettings(formData, mode);
+    if (!parsed.ok) {
+      return inputErrorResponse(parsed.error, requestId);
+    }
+
+    const settings = parsed.value;
+    const translateRequest = readTranslateRequest(
+      formData,
+      mode,
+      settings.language,
+    );
+
+    if (!translateRequest.ok) {
+      return inputErrorResponse(translateRequest.error, requestId);
+    }
+
+    const { error: flaggedError, moderation } = await moderateUserParts([
+      { text: settings.guidance, error: () => inputError("guidance_flagged") },
+      ...translateRequest.value.items.map((item, index) => ({
+        text: item.text,
+        error: () => numberedError("items_flagged", "Item", index),
+      })),
+    ]);
+    if (flaggedError) {
+      return inputErrorResponse(flaggedError, requestId, { moderation });
+    }
+
+    const translations = await runTranslation(
+      settings,
+      translateRequest.value,
+      { provider, signal },
+    );
+
+    return NextResponse.json({ mode, translations });
+  } catch (error) {
+    // A placeholder set in the wrong language would pass for a translation.
+    const { status, body, headers } = resolveGenerationError(error, null, signal);
+    return NextResponse.json(body, { status, headers });
+  }
+}
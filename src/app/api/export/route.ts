@@ -0,0 +1,171 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import {
+  exportFileName,
+  exportSets,
+  exportFormats,
+  isExportFormat,
+  resultToExportSet,
+  type ExportFormat,
+} from "@/lib/export";
+import { modes } from "@/lib/generation/input";
+import {
+  inputError,
+  inputErrorResponse,
+} from "@/lib/generation/input-errors";
+import { parseItem, parseReplyComment } from "@/lib/generation/payloads";
+import type { GenerationResult, Mode } from "@/lib/generation/types";
+import { historyStore } from "@/lib/history-store";
+
+export const runtime = "nodejs";
+
+const maxPostedItems = 50;
+
+const formatError = inputError("format_invalid", {
+  allowed: exportFormats.map((format) => format.id),
+});
+
+type ExportBody = {
+  format?: unknown;
+  historyId?: unknown;
+  result?: unknown;
+};
+
+/**
+ * Reply results may have no items when every comment was escalated, so
+ * they need comments instead.
+ */
+function readPostedResult(value: unknown): GenerationResult | null {
+  const candidate = value as {
+    mode?: unknown;
+    items?: unknown;
+    comments?: unknown;
+  } | null;
+
+  if (
+    !candidate ||
+    !modes.includes(candidate.mode as Mode) ||
+    !Array.isArray(candidate.items) ||
+    candidate.items.length > maxPostedItems
+  ) {
+    return null;
+  }
+
+  const mode = candidate.mode as Mode;
+  const comments =
+    mode === "reply" && Array.isArray(candidate.comments)
+      ? candidate.comments
+      : [];
+  if (
+    (candidate.items.length === 0 && comments.length === 0) ||
+    comments.length > maxPostedItems
+  ) {
+    return null;
+  }
+
+  try {
+    const items = candidate.items.map((item) => parseItem(mode, item));
+    return (
+      comments.length > 0
+        ? { mode, items, comments: comments.map(parseReplyComment) }
+        : { mode, items }
+    ) as GenerationResult;
+  } catch {
+    return null;
+  }
+}
+
+function historyPrefix(id: string) {
+  return `history-${id.replace(/[^a-z0-9-]/gi, "").slice(0, 8)}`;
+}
+
+function respondWithExport(
+  format: ExportFormat,
+  result: GenerationResult,
+  prefix: string,
+) {
+  const file = exportSets(
+    [resultToExportSet(result)],
+    format,
+    exportFileName(prefix),
+  );
+
+  return new NextResponse(file.content, {
+    headers: {
+      "Content-Type": file.mimeType,
+      "Content-Disposition": `attachment; filename="${file.fileName}"`,
+    },
+  });
+}
+
+async function loadHistoryResult(id: string) {
+  const entry = await historyStore.get(id);
+  return entry?.result ?? null;
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format") ?? "csv";
+  const historyId = searchParams.get("historyId");
+
+  if (!isExportFormat(format)) {
+    return inputErrorResponse(formatError, randomUUID());
+  }
+
+  if (!historyId) {
+    return inputErrorResponse(inputError("history_id_missing"), randomUUID());
+  }
+
+  const result = await loadHistoryResult(historyId);
+  if (!result) {
+    return NextResponse.json(
+      { error: "History entry not found" },
+      { status: 404 },
+    );
+  }
+
+  return respondWithExport(format, result, historyPrefix(historyId));
+}
+
+export async function POST(request: Request) {
+  const requestId = randomUUID();
+  const body = (await request.json().catch(() => null)) as ExportBody | null;
+  const format = body?.format ?? "csv";
+
+  if (!body) {
+    return inputErrorResponse(
+      { ...inputError("body_invalid"), message: "Send the request as JSON." },
+      requestId,
+    );
+  }
+
+  if (!isExportFormat(format)) {
+    return inputErrorResponse(formatError, requestId);
+  }
+
+  if (typeof body.historyId === "string") {
+    const result = await loadHistoryResult(body.historyId);
+    if (!result) {
+      return NextResponse.json(
+        { error: "History entry not found" },
+        { status: 404 },
+      );
+    }
+
+    return respondWithExport(format, result, historyPrefix(body.historyId));
+  }
+
+  const result = readPostedResult(body.result);
+  if (!result) {
+    return inputErrorResponse(
+      inputError("result_invalid", { max: maxPostedItems }),
+      requestId,
+    );
+  }
+
+  return respondWithExport(
+    format,
+    result,
+    result.mode === "bio" ? "bios" : result.mode,
+  );
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { historyStore } from "@/lib/history-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = () =>
+  NextResponse.json({ error: "History entry not found" }, { status: 404 });
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const item = await historyStore.get(id);
+
+  return item ? NextResponse.json({ item }) : notFound();
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const removed = await historyStore.remove(id);
+
+  return removed ? new NextResponse(null, { status: 204 }) : notFound();
+}
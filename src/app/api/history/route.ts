@@ -0,0 +1,46 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { invalidModeError, modes } from "@/lib/generation/input";
+import { inputErrorResponse } from "@/lib/generation/input-errors";
+import type { Mode, Tone } from "@/lib/generation/types";
+import {
+  matchesHistoryFilters,
+  summarizeHistoryEntry,
+  type HistoryFilters,
+} from "@/lib/history";
+import { historyStore } from "@/lib/history-store";
+
+export const runtime = "nodejs";
+
+const defaultPageSize = 50;
+const maxPageSize = 200;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const mode = searchParams.get("mode");
+  const tone = searchParams.get("tone");
+  const limitRaw = Number.parseInt(searchParams.get("limit") ?? "", 10);
+
+  if (mode && !modes.includes(mode as Mode)) {
+    return inputErrorResponse(invalidModeError, randomUUID());
+  }
+
+  const filters: HistoryFilters = {
+    query: searchParams.get("q") ?? undefined,
+    mode: (mode as Mode | null) ?? undefined,
+    tone: (tone as Tone | null) ?? undefined,
+  };
+  const limit =
+    Number.isInteger(limitRaw) && limitRaw > 0
+      ? Math.min(limitRaw, maxPageSize)
+      : defaultPageSize;
+
+  const entries = await historyStore.list();
+  const items = entries
+    .filter((entry) => matchesHistoryFilters(entry, filters))
+    .reverse()
+    .slice(0, limit)
+    .map(summarizeHistoryEntry);
+
+  return NextResponse.json({ items });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/api-keys";
+import { customToneStore } from "@/lib/custom-tone-store";
+import { readCustomToneFields } from "@/lib/custom-tones";
+import { flaggedInputError } from "@/lib/generation/input-errors";
+import { moderateUserText } from "@/lib/generation/moderation";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = () =>
+  NextResponse.json({ error: "Tone not found" }, { status: 404 });
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const item = await customToneStore.get(id);
+
+  return item ? NextResponse.json({ item }) : notFound();
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const denied = await requireApiKey(request);
+  if (denied) {
+    return denied;
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const fields = readCustomToneFields(body, true);
+
+  if (!fields.ok) {
+    return NextResponse.json({ error: fields.error }, { status: 400 });
+  }
+
+  const moderation = await moderateUserText(Object.values(fields.value).flat());
+  if (moderation.flagged) {
+    return NextResponse.json(
+      { error: flaggedInputError, moderation },
+      { status: 400 },
+    );
+  }
+
+  const item = await customToneStore.update(id, fields.value);
+  return item ? NextResponse.json({ item }) : notFound();
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const denied = await requireApiKey(request);
+  if (denied) {
+    return denied;
+  }
+
+  const { id } = await params;
+  const removed = await customToneStore.remove(id);
+
+  return removed ? new NextResponse(null, { status: 204 }) : notFound();
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/api-keys";
+import { customToneStore } from "@/lib/custom-tone-store";
+import { readCustomToneFields } from "@/lib/custom-tones";
+import { allowedTones } from "@/lib/generation/input";
+import { flaggedInputError } from "@/lib/generation/input-errors";
+import { moderateUserText } from "@/lib/generation/moderation";
+
+export const runtime = "nodejs";
+
+/** Custom tones by label; `builtIn` lists the preset tone ids. */
+export async function GET() {
+  const items = await customToneStore.list();
+  items.sort((a, b) => a.label.localeCompare(b.label));
+
+  return NextResponse.json({ builtIn: allowedTones, items });
+}
+
+/** The definition is added to prompts, so it is moderated like guidance. */
+export async function POST(request: Request) {
+  const denied = await requireApiKey(request);
+  if (denied) {
+    return denied;
+  }
+
+  const body = await request.json().catch(() => null);
+  const fields = readCustomToneFields(body);
+
+  if (!fields.ok) {
+    return NextResponse.json({ error: fields.error }, { status: 400 });
+  }
+
+  const moderation = await moderateUserText(Object.values(fields.value).flat());
+  if (moderation.flagged) {
+    return NextResponse.json(
+      { error: flaggedInputError, moderation },
+      { status: 400 },
+    );
+  }
+
+  const item = await customToneStore.create(fields.value);
+  return NextResponse.json({ item }, { status: 201 });
+}
@@ -0,0 +1,123 @@
+import { authenticateApiKey } from "@/lib/api-keys";
+import {
+  apiData,
+  apiError,
+  apiRateLimited,
+  createRequestId,
+  errorCodeByReason,
+  readV1CaptionsBody,
+} from "@/lib/api-v1";
+import { createRequestSignal } from "@/lib/deadline";
+import {
+  invalidModeError,
+  readCacheMode,
+  readGenerationInput,
+  readMode,
+} from "@/lib/generation/input";
+import { inputErrorStatus } from "@/lib/generation/input-errors";
+import { moderateGenerationInput } from "@/lib/generation/moderation";
+import {
+  resolveGenerationError,
+  runGeneration,
+} from "@/lib/generation/pipeline";
+import { recordHistory } from "@/lib/history-store";
+import { getModelProvider } from "@/lib/model-provider";
+import { checkRateLimit } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+
+/**
+ * JSON counterpart of `/api/captions` for other services. Unlike the form
+ * route it never answers with placeholder copy: failures are errors.
+ */
+export async function POST(request: Request) {
+  const requestId = createRequestId();
+
+  const apiKey = await authenticateApiKey(request);
+  if (!apiKey) {
+    return apiError(requestId, 401, {
+      code: "unauthorized",
+      message: "Send a valid API key as X-API-Key or a Bearer token.",
+    });
+  }
+
+  const rateLimit = await checkRateLimit(request);
+  if (rateLimit && !rateLimit.allowed) {
+    return apiRateLimited(requestId, rateLimit);
+  }
+
+  const signal = createRequestSignal(request);
+  const body = await request.json().catch(() => null);
+  const read = await readV1CaptionsBody(body);
+  if (!read.ok) {
+    return apiError(requestId, 400, read.error);
+  }
+
+  const mode = readMode(read.formData);
+  if (!mode) {
+    return apiError(requestId, 400, {
+      code: "invalid_request",
+      message: invalidModeError.message,
+    });
+  }
+
+  try {
+    const provider = getModelProvider();
+    if (!provider.isConfigured) {
+      return apiError(requestId, 503, {
+        code: "not_configured",
+        message: "No model provider is configured.",
+      });
+    }
+
+    const parsed = await readGenerationInput(read.formData, mode);
+    if (!parsed.ok) {
+      const { code, field, message, limits } = parsed.error;
+      return apiError(requestId, inputErrorStatus(parsed.error), {
+        code: field === "image" ? "invalid_image" : "invalid_request",
+        message,
+        details: { field, reason: code, ...(limits ? { limits } : {}) },
+      });
+    }
+
+    const { error, moderation, input } = await moderateGenerationInput(
+      parsed.value,
+    );
+    if (error) {
+      return apiError(requestId, 400, {
+        code: "flagged_input",
+        message: error.message,
+        details: { field: error.field, reason: error.code, moderation },
+      });
+    }
+
+    const { result, cached, source } = await runGeneration(input, {
+      provider,
+      signal,
+      cache: readCacheMode(read.formData),
+      fallback: "off",
+    });
+    const historyId = await recordHistory(input, result);
+
+    return apiData(requestId, { ...result, cached, source, historyId });
+  } catch (error) {
+    const { status, body, reason, headers } = resolveGenerationError(
+      error,
+      null,
+      signal,
+    );
+
+    return apiError(
+      requestId,
+      status,
+      {
+        code: errorCodeByReason[reason] ?? "internal_error",
+        message: "error" in body ? body.error : "Something went wrong",
+        ...("retryAfter" in body && body.retryAfter !== undefined
+          ? { details: { retryAfter: body.retryAfter } }
+          : {}),
+      },
+      headers,
+    );
+  }
+}
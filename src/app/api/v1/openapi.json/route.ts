@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  return NextResponse.json(buildOpenApiDocument(new URL(request.url).origin));
+}
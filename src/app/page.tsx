@@ -1,4 +1,18 @@
 import CaptionCoachForm from "@/components/caption-coach-form";
+import {
+  carouselMaxSlides,
+  compareMaxTones,
+  minCarouselSlides,
+  minCompareTones,
+  minReplyComments,
+  replyMaxComments,
+} from "@/lib/generation/input";
+import { variantBoundsFromEnv } from "@/lib/generation/variants";
+import { imageMaxUploadBytes } from "@/lib/image-preprocess";
+
+// Rendered per request so the form sees the deployment's variant, carousel,
+// reply, comparison and upload size bounds.
+export const dynamic = "force-dynamic";
 
 export default function Home() {
   return (
@@ -19,7 +33,22 @@ export default function Home() {
         </header>
 
         <section>
-          <CaptionCoachForm />
+          <CaptionCoachForm
+            variantBounds={variantBoundsFromEnv()}
+            carouselSlides={{
+              min: minCarouselSlides,
+              max: carouselMaxSlides(),
+            }}
+            replyComments={{
+              min: minReplyComments,
+              max: replyMaxComments(),
+            }}
+            compareTones={{
+              min: minCompareTones,
+              max: compareMaxTones(),
+            }}
+            maxImageBytes={imageMaxUploadBytes()}
+          />
         </section>
       </div>
     </main>
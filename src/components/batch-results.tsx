@@ -0,0 +1,120 @@
+"use client";
+
+import ExportMenu from "@/components/export-menu";
+import { batchToExportSets } from "@/lib/export";
+import type { BatchImageResult } from "@/lib/generation/batch";
+
+type BatchResultsProps = {
+  results: BatchImageResult[];
+  isRunning: boolean;
+  copiedKey: string | null;
+  onCopy: (text: string, key: string) => void;
+};
+
+const statusLabels: Record<BatchImageResult["status"], string> = {
+  pending: "Queued",
+  running: "Drafting…",
+  done: "Done",
+  failed: "Failed",
+};
+
+export default function BatchResults({
+  results,
+  isRunning,
+  copiedKey,
+  onCopy,
+}: BatchResultsProps) {
+  const finished = results.filter(
+    (result) => result.status === "done" || result.status === "failed",
+  ).length;
+  const failed = results.filter((result) => result.status === "failed").length;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900">Batch results</h2>
+          <p className="text-sm text-zinc-500" role="status">
+            {finished} of {results.length} images processed
+            {failed > 0 ? ` · ${failed} failed` : ""}
+          </p>
+        </div>
+        <ExportMenu
+          sets={batchToExportSets(results)}
+          fileNamePrefix="captions-batch"
+          disabled={isRunning}
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {results.map((result, imageIndex) => (
+          <article
+            key={`${result.name}-${imageIndex}`}
+            className="space-y-3 rounded-2xl border border-zinc-200 bg-[#fbfbff] p-5 shadow-sm"
+          >
+            <header className="flex items-center justify-between gap-3">
+              <h3 className="truncate text-sm font-semibold text-zinc-900">
+                {result.name}
+              </h3>
+              <span
+                className={
+                  result.status === "failed"
+                    ? "text-xs font-medium text-red-500"
+                    : result.status === "done"
+                      ? "text-xs font-medium text-emerald-500"
+                      : "text-xs font-medium text-zinc-500"
+                }
+              >
+                {result.placeholder ? "Placeholder" : statusLabels[result.status]}
+              </span>
+            </header>
+
+            {result.placeholder && (
+              <p className="rounded-lg bg-amber-50 px-3 py-2 text-xs text-amber-700">
+                The model couldn&apos;t caption this image, so these are
+                placeholders. Run the batch again for real captions.
+              </p>
+            )}
+
+            {result.error && (
+              <p className="text-sm text-red-500" role="alert">
+                {result.error}
+              </p>
+            )}
+
+            {result.items?.map((item, index) => {
+              const key = `batch-${imageIndex}-${index}`;
+              return (
+                <div
+                  key={key}
+                  className="space-y-1 border-t border-zinc-100 pt-3"
+                >
+                  <p className="text-sm leading-relaxed text-zinc-800">
+                    {item.text}
+                  </p>
+                  {item.hashtags && (
+                    <p className="text-xs text-zinc-500">{item.hashtags}</p>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onCopy(
+                        item.hashtags
+                          ? `${item.text}\n\n${item.hashtags}`
+                          : item.text,
+                        key,
+                      )
+                    }
+                    className="text-xs font-semibold text-[#6c5ce7] hover:underline"
+                  >
+                    {copiedKey === key ? "Copied!" : "Copy"}
+                  </button>
+                </div>
+              );
+            })}
+          </article>
+        ))}
+      </div>
+    </section>
+  );
+}
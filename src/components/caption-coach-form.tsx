@@ -1,52 +1,420 @@
 "use client";
 
-import { ChangeEvent, FormEvent, useEffect, useMemo, useState } from "react";
+import {
+  ChangeEvent,
+  FormEvent,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import Image from "next/image";
+import BatchResults from "@/components/batch-results";
+import CarouselSlides, {
+  moveSlide,
+  type CarouselSlide,
+} from "@/components/carousel-slides";
+import CompareResults from "@/components/compare-results";
+import CompareSourcePicker, {
+  type CompareSource,
+} from "@/components/compare-source-picker";
+import ExportMenu from "@/components/export-menu";
+import GuidanceField from "@/components/guidance-field";
+import HistoryPanel from "@/components/history-panel";
+import ImageUploadField from "@/components/image-upload-field";
+import RefineControls, { type RefineOptions } from "@/components/refine-controls";
+import ReplyInputs from "@/components/reply-inputs";
+import TonePicker, { type ToneOption } from "@/components/tone-picker";
+import TranslationPanel from "@/components/translation-panel";
+import type { BrandVoice } from "@/lib/brand-voices";
+import type { CustomTone } from "@/lib/custom-tones";
+import type { BatchEvent, BatchImageResult } from "@/lib/generation/batch";
+import type { CompareEvent, CompareToneResult } from "@/lib/generation/compare";
+import type {
+  InputErrorCode,
+  InputField,
+  InputLimits,
+} from "@/lib/generation/input-errors";
+import {
+  maxBioGuidanceLength,
+  maxCaptionGuidanceLength,
+  maxReplyCommentLength,
+  maxReplyPostLength,
+  minBioGuidanceLength,
+} from "@/lib/generation/input-limits";
+import type { TranslatedSet } from "@/lib/generation/translate";
+import type {
+  FallbackReason,
+  GenerationEvent,
+  LengthAdjustment,
+  OutputModeration,
+} from "@/lib/generation/types";
+import type { VariantBounds } from "@/lib/generation/variants";
+import { resultToExportSet } from "@/lib/export";
+import type { HistoryEntry } from "@/lib/history";
+import {
+  defaultLanguageId,
+  isLanguageId,
+  languages,
+  type LanguageId,
+} from "@/lib/languages";
+import {
+  defaultPlatformId,
+  getPlatformPreset,
+  hashtagRangeLabel,
+  maxCharsLimitFor,
+  maxCharsMin,
+  platformPresets,
+  type PlatformId,
+} from "@/lib/platforms";
+import { readEventStream } from "@/lib/sse";
+import { countGraphemes } from "@/lib/text-length";
 
-type Mode = "captions" | "bio";
-type Tone = "" | "funny" | "poetic" | "classy" | "branded";
+type Mode =
+  "captions" | "bio" | "alt-text" | "carousel" | "reply" | "batch" | "compare";
+
+type CaptionCoachFormProps = {
+  variantBounds: Record<ResultState["mode"], VariantBounds>;
+  carouselSlides: { min: number; max: number };
+  replyComments: { min: number; max: number };
+  compareTones: { min: number; max: number };
+  /** The server's upload limit (`IMAGE_MAX_UPLOAD_MB`). */
+  maxImageBytes: number;
+};
+
+type FieldErrors = Partial<Record<InputField, string>>;
+
+/** Fields the form renders; errors on any other field go to the banner. */
+const formFields = new Set<InputField>([
+  "image",
+  "images",
+  "tone",
+  "tones",
+  "guidance",
+  "post",
+  "comments",
+  "maxChars",
+  "variants",
+  "platform",
+  "language",
+  "brandVoiceId",
+]);
+
+type ErrorPayload = {
+  error?: string;
+  retryAfter?: number;
+  code?: InputErrorCode;
+  field?: InputField;
+  limits?: InputLimits;
+};
 
 type CaptionResult = {
   text: string;
   hashtags: string;
+  tags: string[];
 };
 
 type BioResult = {
   text: string;
 };
 
+type AltTextResult = {
+  text: string;
+  description: string;
+};
+
+type CarouselResult = CaptionResult & {
+  slides: string[];
+};
+
+type ReplyResult = {
+  comment: number;
+  text: string;
+};
+
+type ReplyCommentResult = {
+  text: string;
+  escalation?: string;
+};
+
+type ResultItemState =
+  CaptionResult | BioResult | AltTextResult | CarouselResult | ReplyResult;
+
 type ResultState =
-  | { mode: "captions"; items: CaptionResult[] }
-  | { mode: "bio"; items: BioResult[] };
+  | {
+      mode: "captions";
+      items: CaptionResult[];
+      adjustments?: LengthAdjustment[];
+      moderation?: OutputModeration;
+    }
+  | {
+      mode: "bio";
+      items: BioResult[];
+      adjustments?: LengthAdjustment[];
+      moderation?: OutputModeration;
+    }
+  | {
+      mode: "alt-text";
+      items: AltTextResult[];
+      adjustments?: LengthAdjustment[];
+      moderation?: OutputModeration;
+    }
+  | {
+      mode: "carousel";
+      items: CarouselResult[];
+      adjustments?: LengthAdjustment[];
+      moderation?: OutputModeration;
+    }
+  | {
+      mode: "reply";
+      items: ReplyResult[];
+      comments?: ReplyCommentResult[];
+      adjustments?: LengthAdjustment[];
+      moderation?: OutputModeration;
+    };
 
-const tones: Array<{ label: string; value: Exclude<Tone, ""> }> = [
+const builtInTones: ToneOption[] = [
   { label: "Funny", value: "funny" },
   { label: "Poetic", value: "poetic" },
   { label: "Classy", value: "classy" },
   { label: "Branded", value: "branded" },
 ];
 
-const maxCaptionGuidanceLength = 280;
-const minBioGuidanceLength = 10;
-const maxBioGuidanceLength = 400;
+const variantLabels: Record<ResultState["mode"], string> = {
+  captions: "Captions",
+  bio: "Bio options",
+  "alt-text": "Alt text options",
+  carousel: "Carousel captions",
+  reply: "Reply options per comment",
+};
+
+const placeholderReasons: Record<FallbackReason, string> = {
+  not_configured: "No model is configured on this server.",
+  invalid_json: "The model's reply couldn't be read.",
+  rate_limited: "The model is busy right now.",
+  error: "The model call failed.",
+};
+
+const validImageTypes = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "image/avif",
+];
+// Some browsers report HEIC photos with an empty type, so fall back to the name.
+const validImageExtensions = /\.(jpe?g|png|webp|heic|heif|avif)$/i;
+const imageAccept = [...validImageTypes, ".heic", ".heif"].join(",");
+
+function imageProblem(file: File, maxBytes: number) {
+  if (
+    !validImageTypes.includes(file.type) &&
+    !validImageExtensions.test(file.name)
+  ) {
+    return "Please upload a JPG, PNG, WebP, HEIC or AVIF image.";
+  }
+
+  if (file.size > maxBytes) {
+    return `Image must be ${Math.round(maxBytes / 1024 / 1024)}MB or smaller.`;
+  }
+
+  return null;
+}
+
+/** Inline copy for a rejected field; unknown codes keep the server's text. */
+function fieldErrorMessage(payload: ErrorPayload) {
+  const { code, limits = {} } = payload;
+  // Carousel image errors name the slide, e.g. "Slide 3: …", and comment
+  // errors the comment.
+  const slidePrefix = payload.error?.match(/^Slide \d+: /)?.[0] ?? "";
+  const commentPrefix = payload.error?.match(/^Comment \d+: /)?.[0] ?? "";
+
+  switch (code) {
+    case "image_missing":
+      return "Upload an image to caption.";
+    case "image_too_large":
+      return `${slidePrefix}Image must be ${Math.round((limits.max ?? 0) / 1024 / 1024)}MB or smaller.`;
+    case "image_unsupported":
+      return `${slidePrefix}We couldn't read that image. Try a JPG, PNG, WebP, HEIC or AVIF.`;
+    case "slides_invalid":
+      return `Add between ${limits.min} and ${limits.max} slides.`;
+    case "images_invalid":
+      return `Add between ${limits.min} and ${limits.max} images.`;
+    case "tone_missing":
+    case "tone_invalid":
+      return "Pick one of the tones.";
+    case "tones_invalid":
+      return `Pick between ${limits.min} and ${limits.max} tones to compare.`;
+    case "guidance_too_short":
+      return `About text must be at least ${limits.min} characters.`;
+    case "guidance_too_long":
+      return `Keep this to ${limits.max} characters or fewer.`;
+    case "post_missing":
+      return "Paste the caption of the post the comments are on.";
+    case "post_too_long":
+      return `Keep the post caption to ${limits.max} characters or fewer.`;
+    case "comments_invalid":
+      return `Add between ${limits.min} and ${limits.max} comments.`;
+    case "comment_too_long":
+      return `${commentPrefix}Keep each comment to ${limits.max} characters or fewer.`;
+    case "max_chars_invalid":
+      return `Max characters must be between ${limits.min} and ${limits.max}.`;
+    case "variants_invalid":
+      return `Choose between ${limits.min} and ${limits.max} variants.`;
+    case "platform_invalid":
+      return "That platform isn't supported. Pick another.";
+    case "language_invalid":
+      return "That language isn't supported. Pick another.";
+    case "brand_voice_not_found":
+      return "This brand voice was deleted. Pick another or none.";
+    default:
+      return payload.error ?? "Invalid input";
+  }
+}
+
+/**
+ * The mode a form mode generates in: batches are captions and comparisons
+ * follow their source.
+ */
+function resultModeFor(
+  mode: Mode,
+  compareSource: CompareSource,
+): ResultState["mode"] {
+  if (mode === "batch") return "captions";
+  return mode === "compare" ? compareSource : mode;
+}
+
+function withStreamedItem(
+  previous: ResultState | null,
+  mode: ResultState["mode"],
+  index: number,
+  item: ResultItemState,
+): ResultState {
+  const items: ResultItemState[] =
+    previous && previous.mode === mode ? [...previous.items] : [];
+  items[index] = item;
+
+  return { mode, items } as ResultState;
+}
 
-const maxCharsMin = 40;
-const maxCharsMax = 220;
+function adjustmentLabel(results: ResultState, index: number) {
+  const adjustment = results.adjustments?.find(
+    (entry) => entry.index === index,
+  );
+  if (!adjustment) return null;
+
+  return adjustment.action === "regenerated"
+    ? `Rewritten to fit (was ${adjustment.originalLength})`
+    : `Trimmed to fit (was ${adjustment.originalLength})`;
+}
+
+function moderationSummary(moderation: OutputModeration | undefined) {
+  if (!moderation || moderation.verdict === "clean") return null;
+
+  const count = (action: string) =>
+    moderation.actions.filter((entry) => entry.action === action).length;
+  const plural = (value: number, noun: string) =>
+    `${value} ${noun}${value === 1 ? "" : "s"}`;
+
+  const parts = [
+    count("regenerated") > 0 &&
+      `rewrote ${plural(count("regenerated"), "item")}`,
+    count("dropped") > 0 && `removed ${plural(count("dropped"), "item")}`,
+    count("hashtags-removed") > 0 &&
+      `removed hashtags from ${plural(count("hashtags-removed"), "caption")}`,
+  ].filter(Boolean);
+
+  return `Content moderation ${parts.join(", ")}.`;
+}
+
+function itemCount(count: number, noun = "item") {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function formatWait(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function copyFormData(source: FormData) {
+  const copy = new FormData();
+  source.forEach((value, key) => copy.append(key, value));
+  return copy;
+}
 
 function classNames(...values: Array<string | false | null | undefined>) {
   return values.filter(Boolean).join(" ");
 }
 
-export default function CaptionCoachForm() {
+export default function CaptionCoachForm({
+  variantBounds,
+  carouselSlides,
+  replyComments,
+  compareTones,
+  maxImageBytes,
+}: CaptionCoachFormProps) {
   const [mode, setMode] = useState<Mode>("captions");
-  const [tone, setTone] = useState<Tone>("");
+  const [tone, setTone] = useState("");
+  const [customTones, setCustomTones] = useState<CustomTone[]>([]);
+  const [platform, setPlatform] = useState<PlatformId>(defaultPlatformId);
+  const [language, setLanguage] = useState<LanguageId>(defaultLanguageId);
+  const [brandVoices, setBrandVoices] = useState<BrandVoice[]>([]);
+  const [brandVoiceId, setBrandVoiceId] = useState("");
   const [guidance, setGuidance] = useState("");
   const [maxChars, setMaxChars] = useState("");
+  const [variants, setVariants] = useState(variantBounds.captions.default);
   const [imageFile, setImageFile] = useState<File | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [slides, setSlides] = useState<CarouselSlide[]>([]);
+  const [slideLines, setSlideLines] = useState(true);
+  // The slides behind the current carousel results, in the order sent.
+  const [resultSlides, setResultSlides] = useState<CarouselSlide[]>([]);
+  const [post, setPost] = useState("");
+  const [comments, setComments] = useState<string[]>([""]);
+  // The comments behind the current reply results, in the order sent.
+  const [resultComments, setResultComments] = useState<string[]>([]);
+  // Every preview URL made since the last mode change, revoked together.
+  const previewUrls = useRef<string[]>([]);
+  const [batchResults, setBatchResults] = useState<BatchImageResult[] | null>(
+    null,
+  );
+  const [compareSource, setCompareSource] = useState<CompareSource>("captions");
+  const [selectedTones, setSelectedTones] = useState<string[]>([]);
+  const [compareResults, setCompareResults] = useState<
+    CompareToneResult[] | null
+  >(null);
   const [imageError, setImageError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [results, setResults] = useState<ResultState | null>(null);
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
+  const [retryUntil, setRetryUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [historyKey, setHistoryKey] = useState(0);
+  const [resultsNotice, setResultsNotice] = useState<string | null>(null);
+  const [placeholderReason, setPlaceholderReason] =
+    useState<FallbackReason | null>(null);
+  const [freshVariants, setFreshVariants] = useState(false);
+  const runController = useRef<AbortController | null>(null);
+  const formRef = useRef<HTMLFormElement>(null);
+  // The request behind the current results, replayed when refining an item.
+  const [resultsRequest, setResultsRequest] = useState<FormData | null>(null);
+  const [translations, setTranslations] = useState<TranslatedSet[]>([]);
+
+  useEffect(() => () => runController.current?.abort(), []);
+
+  useEffect(() => {
+    const urls = previewUrls.current;
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
 
   useEffect(() => {
     if (!copiedKey) return;
@@ -55,6 +423,55 @@ export default function CaptionCoachForm() {
     return () => clearTimeout(timer);
   }, [copiedKey]);
 
+  useEffect(() => {
+    if (!retryUntil) return;
+
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryUntil) {
+        setRetryUntil(null);
+        setError(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryUntil]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/brand-voices")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload: { items?: BrandVoice[] } | null) => {
+        if (!cancelled && payload?.items) {
+          setBrandVoices(payload.items);
+        }
+      })
+      .catch(() => undefined);
+
+    fetch("/api/tones")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload: { items?: CustomTone[] } | null) => {
+        if (!cancelled && payload?.items) {
+          setCustomTones(payload.items);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const tones: ToneOption[] = [
+    ...builtInTones,
+    ...customTones.map((entry) => ({
+      label: entry.label,
+      value: entry.id,
+      description: entry.description,
+    })),
+  ];
+
   const trimmedGuidance = guidance.trim();
 
   const guidanceLength = guidance.length;
@@ -65,6 +482,26 @@ export default function CaptionCoachForm() {
 
   const guidanceIsValidForCaptions = guidanceLength <= maxCaptionGuidanceLength;
 
+  const trimmedPost = post.trim();
+  const sentComments = comments
+    .map((comment) => comment.trim())
+    .filter(Boolean);
+  const commentsAreValid =
+    sentComments.length >= replyComments.min &&
+    sentComments.length <= replyComments.max &&
+    sentComments.every((comment) => comment.length <= maxReplyCommentLength);
+
+  const maxImageMb = Math.round(maxImageBytes / 1024 / 1024);
+  const platformPreset = getPlatformPreset(platform);
+  const generationMode = resultModeFor(mode, compareSource);
+  const needsImage = generationMode !== "bio" && generationMode !== "reply";
+  const needsTone =
+    generationMode === "captions" ||
+    generationMode === "carousel" ||
+    generationMode === "reply";
+  const maxCharsMax = maxCharsLimitFor(platformPreset, generationMode);
+  const variantRange = variantBounds[generationMode];
+
   const maxCharsValue = maxChars ? Number(maxChars) : undefined;
   const maxCharsIsValid =
     !maxChars ||
@@ -72,38 +509,179 @@ export default function CaptionCoachForm() {
       maxCharsValue! >= maxCharsMin &&
       maxCharsValue! <= maxCharsMax);
 
+  const retrySeconds = retryUntil
+    ? Math.max(0, Math.ceil((retryUntil - now) / 1000))
+    : 0;
+
   const ctaEnabled = useMemo(() => {
-    if (!maxCharsIsValid) return false;
+    if (!maxCharsIsValid || retrySeconds > 0) return false;
 
     if (mode === "captions") {
       return Boolean(imageFile) && tone !== "" && guidanceIsValidForCaptions;
     }
 
+    if (mode === "batch") {
+      return batchFiles.length > 0 && tone !== "" && guidanceIsValidForCaptions;
+    }
+
+    if (mode === "compare") {
+      const tonesAreValid =
+        selectedTones.length >= compareTones.min &&
+        selectedTones.length <= compareTones.max;
+      return compareSource === "bio"
+        ? tonesAreValid && guidanceIsValidForBio
+        : tonesAreValid && Boolean(imageFile) && guidanceIsValidForCaptions;
+    }
+
+    if (mode === "alt-text") {
+      return Boolean(imageFile) && guidanceIsValidForCaptions;
+    }
+
+    if (mode === "carousel") {
+      return (
+        slides.length >= carouselSlides.min &&
+        slides.length <= carouselSlides.max &&
+        tone !== "" &&
+        guidanceIsValidForCaptions
+      );
+    }
+
+    if (mode === "reply") {
+      return (
+        trimmedPost.length > 0 &&
+        trimmedPost.length <= maxReplyPostLength &&
+        commentsAreValid &&
+        tone !== "" &&
+        guidanceIsValidForCaptions
+      );
+    }
+
     // bio mode
     return guidanceIsValidForBio;
   }, [
+    batchFiles,
+    carouselSlides,
+    commentsAreValid,
+    compareSource,
+    compareTones,
     guidanceIsValidForBio,
     guidanceIsValidForCaptions,
     imageFile,
     maxCharsIsValid,
     mode,
+    retrySeconds,
+    selectedTones,
+    slides,
     tone,
+    trimmedPost,
   ]);
 
-  const guidanceLimitText =
-    mode === "captions"
-      ? `${guidanceLength}/${maxCaptionGuidanceLength}`
-      : `${guidanceLength}/${maxBioGuidanceLength}`;
+  function clearFieldError(field: InputField) {
+    setFieldErrors((previous) => {
+      if (!previous[field]) return previous;
+
+      const next = { ...previous };
+      delete next[field];
+      return next;
+    });
+  }
 
   function resetForMode(nextMode: Mode) {
     setMode(nextMode);
+    setVariants(variantBounds[resultModeFor(nextMode, compareSource)].default);
     setError(null);
+    setFieldErrors({});
     setResults(null);
+    setResultsRequest(null);
+    setTranslations([]);
+    setBatchResults(null);
+    setCompareResults(null);
     setImageError(null);
+    setResultsNotice(null);
+    setPlaceholderReason(null);
+    setImageFile(null);
+    setBatchFiles([]);
+    setSlides([]);
+    setResultSlides([]);
+    setResultComments([]);
+    previewUrls.current.splice(0).forEach((url) => URL.revokeObjectURL(url));
+  }
 
-    if (nextMode === "bio") {
-      setImageFile(null);
+  function handleRestore(entry: HistoryEntry) {
+    setMode(entry.mode);
+    setTone(
+      tones.some((option) => option.value === entry.tone) ? entry.tone : "",
+    );
+    setGuidance(entry.guidance);
+    setMaxChars(entry.maxChars ? String(entry.maxChars) : "");
+    setVariants(entry.variants ?? variantBounds[entry.mode].default);
+    setPlatform(entry.platform);
+    setLanguage(entry.language ?? defaultLanguageId);
+    setBrandVoiceId(
+      entry.brandVoiceId &&
+        brandVoices.some((voice) => voice.id === entry.brandVoiceId)
+        ? entry.brandVoiceId
+        : "",
+    );
+    if (entry.result.mode === "reply") {
+      const restoredComments = (entry.result.comments ?? []).map(
+        (comment) => comment.text,
+      );
+      setPost(entry.post ?? "");
+      setComments(restoredComments.length > 0 ? restoredComments : [""]);
+      setResultComments(restoredComments);
     }
+    setResults(entry.result);
+    setResultsRequest(restoredRequest(entry));
+    setTranslations([]);
+    setBatchResults(null);
+    setError(null);
+    setFieldErrors({});
+    setImageError(null);
+    setPlaceholderReason(null);
+    setResultsNotice(
+      entry.mode === "bio" || entry.mode === "reply"
+        ? "Restored from history."
+        : "Restored from history. Upload the image again to generate fresh results.",
+    );
+  }
+
+  /**
+   * History keeps no image, so restored captions can be translated but not
+   * refined. Replies keep their post and comments, and refine without the
+   * image.
+   */
+  function restoredRequest(entry: HistoryEntry) {
+    const formData = new FormData();
+    formData.append("mode", entry.mode);
+    formData.append("platform", entry.platform);
+    formData.append("language", entry.language ?? defaultLanguageId);
+    formData.append("tone", entry.tone);
+    formData.append("guidance", entry.guidance);
+
+    if (entry.maxChars) {
+      formData.append("maxChars", String(entry.maxChars));
+    }
+
+    if (entry.variants) {
+      formData.append("variants", String(entry.variants));
+    }
+
+    if (entry.result.mode === "reply") {
+      formData.append("post", entry.post ?? "");
+      for (const comment of entry.result.comments ?? []) {
+        formData.append("comments", comment.text);
+      }
+    }
+
+    if (
+      entry.brandVoiceId &&
+      brandVoices.some((voice) => voice.id === entry.brandVoiceId)
+    ) {
+      formData.append("brandVoiceId", entry.brandVoiceId);
+    }
+
+    return formData;
   }
 
   function onModeChange(event: ChangeEvent<HTMLInputElement>) {
@@ -112,14 +690,40 @@ export default function CaptionCoachForm() {
   }
 
   function onToneChange(event: ChangeEvent<HTMLInputElement>) {
-    setTone(event.target.value as Tone);
+    clearFieldError("tone");
+    setTone(event.target.value);
+  }
+
+  function onPlatformChange(event: ChangeEvent<HTMLSelectElement>) {
+    clearFieldError("platform");
+    clearFieldError("maxChars");
+    setPlatform(event.target.value as PlatformId);
+  }
+
+  function onLanguageChange(event: ChangeEvent<HTMLSelectElement>) {
+    clearFieldError("language");
+    if (isLanguageId(event.target.value)) {
+      setLanguage(event.target.value);
+    }
+  }
+
+  function onBrandVoiceChange(event: ChangeEvent<HTMLSelectElement>) {
+    clearFieldError("brandVoiceId");
+    setBrandVoiceId(event.target.value);
   }
 
   function onGuidanceChange(event: ChangeEvent<HTMLTextAreaElement>) {
+    clearFieldError("guidance");
     setGuidance(event.target.value);
   }
 
+  function onVariantsChange(event: ChangeEvent<HTMLSelectElement>) {
+    clearFieldError("variants");
+    setVariants(Number(event.target.value));
+  }
+
   function onMaxCharsChange(event: ChangeEvent<HTMLInputElement>) {
+    clearFieldError("maxChars");
     const value = event.target.value;
     if (!value) {
       setMaxChars("");
@@ -136,86 +740,573 @@ export default function CaptionCoachForm() {
 
   function onImageChange(event: ChangeEvent<HTMLInputElement>) {
     setImageError(null);
+    clearFieldError("image");
     const files = event.target.files;
     if (!files || files.length === 0) {
       setImageFile(null);
+      setBatchFiles([]);
       return;
     }
 
-    const file = files[0];
-    const validTypes = ["image/jpeg", "image/png"];
-    if (!validTypes.includes(file.type)) {
-      setImageFile(null);
-      setImageError("Please upload a JPG or PNG image.");
+    if (mode === "carousel") {
+      addSlides(Array.from(files));
+      // Let the same file be picked again after it was removed.
+      event.target.value = "";
+      return;
+    }
+
+    if (mode === "batch") {
+      const accepted: File[] = [];
+      const rejected: string[] = [];
+
+      for (const file of Array.from(files)) {
+        if (imageProblem(file, maxImageBytes)) {
+          rejected.push(file.name);
+        } else {
+          accepted.push(file);
+        }
+      }
+
+      setBatchFiles(accepted);
+      if (rejected.length > 0) {
+        setImageError(
+          `Skipped ${rejected.join(", ")}: use JPG, PNG, WebP, HEIC or AVIF up to ${maxImageMb}MB.`,
+        );
+      }
       return;
     }
 
-    const maxSizeMb = 3;
-    if (file.size > maxSizeMb * 1024 * 1024) {
+    const file = files[0];
+    const problem = imageProblem(file, maxImageBytes);
+    if (problem) {
       setImageFile(null);
-      setImageError("Image must be 3MB or smaller.");
+      setImageError(problem);
       return;
     }
 
     setImageFile(file);
   }
 
+  function addSlides(files: File[]) {
+    const accepted = files.filter((file) => !imageProblem(file, maxImageBytes));
+    const rejected = files.filter((file) => imageProblem(file, maxImageBytes));
+    const room = carouselSlides.max - slides.length;
+
+    const added = accepted.slice(0, room).map((file) => {
+      const previewUrl = URL.createObjectURL(file);
+      previewUrls.current.push(previewUrl);
+      return { id: crypto.randomUUID(), file, previewUrl };
+    });
+    setSlides([...slides, ...added]);
+
+    if (rejected.length > 0) {
+      setImageError(
+        `Skipped ${rejected.map((file) => file.name).join(", ")}: use JPG, PNG, WebP, HEIC or AVIF up to ${maxImageMb}MB.`,
+      );
+    } else if (accepted.length > room) {
+      setImageError(
+        `A carousel holds at most ${carouselSlides.max} slides; the rest were skipped.`,
+      );
+    }
+  }
+
+  function onMoveSlide(from: number, to: number) {
+    if (to < 0 || to >= slides.length) return;
+    clearFieldError("images");
+    setSlides(moveSlide(slides, from, to));
+  }
+
+  function onRemoveSlide(index: number) {
+    clearFieldError("images");
+    setImageError(null);
+    setSlides(slides.filter((_, slideIndex) => slideIndex !== index));
+  }
+
+  function buildSettingsFormData() {
+    const formData = new FormData();
+    formData.append("platform", platform);
+    formData.append("language", language);
+
+    if (brandVoiceId && generationMode !== "alt-text") {
+      formData.append("brandVoiceId", brandVoiceId);
+    }
+
+    if (mode === "compare") {
+      for (const selected of selectedTones) {
+        formData.append("tones", selected);
+      }
+    } else if (tone && generationMode !== "alt-text") {
+      formData.append("tone", tone);
+    }
+
+    if (trimmedGuidance) {
+      formData.append("guidance", trimmedGuidance);
+    }
+
+    if (maxCharsValue && maxCharsIsValid) {
+      formData.append("maxChars", String(maxCharsValue));
+    }
+
+    formData.append("variants", String(variants));
+
+    if (freshVariants) {
+      formData.append("bypassCache", "true");
+    }
+
+    return formData;
+  }
+
+  /**
+   * Also starts the retry countdown when the response is a 429, and shows
+   * field errors inline, leaving only a pointer to them for the banner.
+   */
+  async function readErrorMessage(response: Response) {
+    const payload = (await response.json().catch(() => null)) as
+      | ErrorPayload
+      | null;
+
+    if (payload?.code && payload.field && formFields.has(payload.field)) {
+      const field = payload.field;
+      setFieldErrors((previous) => ({
+        ...previous,
+        [field]: fieldErrorMessage(payload),
+      }));
+      return "Please fix the highlighted field.";
+    }
+
+    if (response.status === 429) {
+      const retryAfter = Number(
+        response.headers.get("retry-after") ?? payload?.retryAfter,
+      );
+      if (Number.isFinite(retryAfter) && retryAfter > 0) {
+        const current = Date.now();
+        setNow(current);
+        setRetryUntil(current + retryAfter * 1000);
+      }
+    }
+
+    return (
+      payload?.error ??
+      (response.status === 500 ? "Something went wrong" : "Invalid input")
+    );
+  }
+
+  async function handleBatchSubmit(signal: AbortSignal) {
+    setBatchResults(
+      batchFiles.map((file) => ({ name: file.name, status: "pending" })),
+    );
+
+    const formData = buildSettingsFormData();
+    for (const file of batchFiles) {
+      formData.append("images", file);
+    }
+
+    const response = await fetch("/api/captions/batch", {
+      method: "POST",
+      body: formData,
+      signal,
+    });
+
+    if (!response.ok) {
+      setBatchResults(null);
+      setError(await readErrorMessage(response));
+      return;
+    }
+
+    const update = (index: number, patch: Partial<BatchImageResult>) =>
+      setBatchResults((previous) =>
+        previous
+          ? previous.map((entry, entryIndex) =>
+              entryIndex === index ? { ...entry, ...patch } : entry,
+            )
+          : previous,
+      );
+
+    await readEventStream<BatchEvent>(response, (event) => {
+      switch (event.type) {
+        case "batch-start":
+          setStatusMessage(
+            `Captioning ${event.total} images, ${event.concurrency} at a time…`,
+          );
+          break;
+        case "image-start":
+          update(event.index, { status: "running" });
+          break;
+        case "image-done":
+          if (event.result.mode === "captions") {
+            update(event.index, {
+              status: "done",
+              items: event.result.items,
+              placeholder: event.source === "fallback",
+            });
+          }
+          break;
+        case "image-error":
+          update(event.index, { status: "failed", error: event.error });
+          break;
+        case "batch-done":
+          setHistoryKey((key) => key + 1);
+          break;
+        case "error":
+          setError(event.error);
+          break;
+      }
+    });
+  }
+
+  async function handleCompareSubmit(signal: AbortSignal) {
+    const labelFor = (value: string) =>
+      tones.find((option) => option.value === value)?.label ?? value;
+    setCompareResults(
+      selectedTones.map((value) => ({
+        tone: value,
+        label: labelFor(value),
+        status: "running",
+      })),
+    );
+
+    const formData = buildSettingsFormData();
+    formData.append("mode", compareSource);
+    if (compareSource === "captions" && imageFile) {
+      formData.append("image", imageFile);
+    }
+
+    const response = await fetch("/api/captions/compare", {
+      method: "POST",
+      body: formData,
+      signal,
+    });
+
+    if (!response.ok) {
+      setCompareResults(null);
+      setError(await readErrorMessage(response));
+      return;
+    }
+
+    const update = (index: number, patch: Partial<CompareToneResult>) =>
+      setCompareResults((previous) =>
+        previous
+          ? previous.map((entry, entryIndex) =>
+              entryIndex === index ? { ...entry, ...patch } : entry,
+            )
+          : previous,
+      );
+
+    await readEventStream<CompareEvent>(response, (event) => {
+      switch (event.type) {
+        case "compare-start":
+          setStatusMessage(
+            `Drafting in ${event.tones.length} tones side by side…`,
+          );
+          break;
+        case "tone-done":
+          update(event.index, {
+            status: "done",
+            items: event.result.items,
+            placeholder: event.source === "fallback",
+          });
+          break;
+        case "tone-error":
+          update(event.index, { status: "failed", error: event.error });
+          break;
+        case "compare-done":
+          setHistoryKey((key) => key + 1);
+          break;
+        case "error":
+          setError(event.error);
+          break;
+      }
+    });
+  }
+
+  /** Picks a compared tone and returns to a normal run with the same input. */
+  function handleUseTone(value: string) {
+    setMode(compareSource);
+    setTone(value);
+    setCompareResults(null);
+    setFieldErrors({});
+    setError(null);
+  }
+
+  function onCompareSourceChange(event: ChangeEvent<HTMLInputElement>) {
+    const next = event.target.value as CompareSource;
+    setCompareSource(next);
+    setVariants(variantBounds[next].default);
+    clearFieldError("image");
+    clearFieldError("guidance");
+    setCompareResults(null);
+  }
+
+  function onCompareToneChange(event: ChangeEvent<HTMLInputElement>) {
+    const { value, checked } = event.target;
+    clearFieldError("tone");
+    clearFieldError("tones");
+    setSelectedTones((previous) =>
+      checked
+        ? [...previous, value]
+        : previous.filter((selected) => selected !== value),
+    );
+  }
+
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     if (!ctaEnabled) return;
 
     setIsSubmitting(true);
     setError(null);
+    setFieldErrors({});
     setResults(null);
+    setResultsRequest(null);
+    setTranslations([]);
+    setBatchResults(null);
+    setCompareResults(null);
+    setResultsNotice(null);
+    setPlaceholderReason(null);
+    setStatusMessage("Drafting your best lines…");
+
+    const controller = new AbortController();
+    runController.current = controller;
+    let streamedCount = 0;
 
     try {
-      const formData = new FormData();
-      formData.append("mode", mode);
+      if (mode === "batch") {
+        await handleBatchSubmit(controller.signal);
+        return;
+      }
 
-      if (mode === "captions") {
-        if (imageFile) {
-          formData.append("image", imageFile);
-        }
-        formData.append("tone", tone);
-      } else if (tone) {
-        formData.append("tone", tone);
+      if (mode === "compare") {
+        await handleCompareSubmit(controller.signal);
+        return;
       }
 
-      if (trimmedGuidance) {
-        formData.append("guidance", trimmedGuidance);
+      const formData = buildSettingsFormData();
+      formData.append("mode", mode);
+
+      if (mode === "carousel") {
+        for (const slide of slides) {
+          formData.append("images", slide.file);
+        }
+        if (!slideLines) {
+          formData.append("slideLines", "false");
+        }
+        setResultSlides(slides);
+      } else if (generationMode !== "bio" && imageFile) {
+        formData.append("image", imageFile);
       }
 
-      if (maxCharsValue && maxCharsIsValid) {
-        formData.append("maxChars", String(maxCharsValue));
+      if (mode === "reply") {
+        formData.append("post", trimmedPost);
+        for (const comment of sentComments) {
+          formData.append("comments", comment);
+        }
+        setResultComments(sentComments);
       }
 
-      const response = await fetch("/api/captions", {
+      const response = await fetch("/api/captions/stream", {
         method: "POST",
         body: formData,
+        signal: controller.signal,
       });
 
       if (!response.ok) {
-        const payload = (await response.json().catch(() => null)) as
-          | { error?: string }
-          | null;
-        const message =
-          payload?.error ??
-          (response.status === 500
-            ? "Something went wrong"
-            : "Invalid input");
-        setError(message);
+        setError(await readErrorMessage(response));
         return;
       }
 
-      const data = (await response.json()) as ResultState;
-      setResults(data);
+      const requestMode = mode;
+      await readEventStream<GenerationEvent>(response, (event) => {
+        switch (event.type) {
+          case "status":
+            setStatusMessage(event.message);
+            break;
+          case "retry":
+            setStatusMessage(
+              `The model is busy. Retrying in ${Math.ceil(event.waitMs / 1000)}s…`,
+            );
+            break;
+          case "item":
+            streamedCount = Math.max(streamedCount, event.index + 1);
+            setResults((previous) =>
+              withStreamedItem(previous, requestMode, event.index, event.item),
+            );
+            break;
+          case "reset":
+            streamedCount = 0;
+            setResults(null);
+            setStatusMessage("Tidying up the draft and trying again…");
+            break;
+          case "fallback":
+            setStatusMessage("Using backup copy…");
+            break;
+          case "done":
+            setResults(event.result);
+            setResultsRequest(formData);
+            setHistoryKey((key) => key + 1);
+            if (event.source === "fallback") {
+              setPlaceholderReason(event.fallbackReason ?? "error");
+            } else if (event.result.partial) {
+              setResultsNotice(
+                `Time ran out, so only ${itemCount(event.result.items.length)} finished.`,
+              );
+            } else if (event.cached) {
+              setResultsNotice(
+                "Same image and settings as an earlier run, so these are the saved results. Tick Fresh variants to draft new ones.",
+              );
+            }
+            break;
+          case "error":
+            setError(event.error);
+            break;
+        }
+      });
     } catch {
-      setError("Something went wrong");
+      if (!controller.signal.aborted) {
+        setError("Something went wrong");
+      } else if (mode === "batch") {
+        setBatchResults((previous) =>
+          previous
+            ? previous.map((entry) =>
+                entry.status === "pending" || entry.status === "running"
+                  ? { ...entry, status: "failed", error: "Cancelled" }
+                  : entry,
+              )
+            : previous,
+        );
+      } else if (mode === "compare") {
+        setCompareResults((previous) =>
+          previous
+            ? previous.map((entry) =>
+                entry.status === "running"
+                  ? { ...entry, status: "failed", error: "Cancelled" }
+                  : entry,
+              )
+            : previous,
+        );
+      } else if (streamedCount > 0) {
+        setResultsNotice(
+          `Cancelled. Keeping the ${itemCount(streamedCount)} drafted so far.`,
+        );
+      }
     } finally {
+      if (runController.current === controller) {
+        runController.current = null;
+      }
       setIsSubmitting(false);
+      setStatusMessage(null);
+    }
+  }
+
+  function handleCancel() {
+    runController.current?.abort();
+  }
+
+  async function requestRefinement(index: number, options: RefineOptions) {
+    if (!results || !resultsRequest) {
+      throw new Error("Generate a fresh set before refining.");
+    }
+
+    const item = results.items[index];
+    const formData = copyFormData(resultsRequest);
+    formData.append("item", JSON.stringify(item));
+    // A reply only needs to differ from the other options for its comment.
+    formData.append(
+      "others",
+      JSON.stringify(
+        results.items.filter(
+          (other, otherIndex) =>
+            otherIndex !== index &&
+            (!("comment" in item) ||
+              ("comment" in other && other.comment === item.comment)),
+        ),
+      ),
+    );
+    formData.append("count", String(options.count));
+
+    if (options.preset) {
+      formData.append("preset", options.preset);
+    }
+
+    if (options.instruction) {
+      formData.append("instruction", options.instruction);
+    }
+
+    const response = await fetch("/api/captions/refine", {
+      method: "POST",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response));
+    }
+
+    const payload = (await response.json()) as ResultState;
+    return payload.items;
+  }
+
+  function applyRefinement(index: number, item: ResultItemState) {
+    setResults((previous) => {
+      if (!previous) return previous;
+
+      const items: ResultItemState[] = [...previous.items];
+      items[index] = item;
+
+      return {
+        ...previous,
+        items,
+        adjustments: previous.adjustments?.filter(
+          (entry) => entry.index !== index,
+        ),
+      } as ResultState;
+    });
+  }
+
+  async function handleTranslate(targets: LanguageId[]) {
+    if (!results || !resultsRequest) {
+      throw new Error("Generate a fresh set before translating.");
+    }
+
+    const formData = copyFormData(resultsRequest);
+    formData.delete("image");
+    formData.delete("images");
+    formData.append("items", JSON.stringify(results.items));
+    for (const target of targets) {
+      formData.append("targets", target);
+    }
+
+    const response = await fetch("/api/captions/translate", {
+      method: "POST",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response));
     }
+
+    const payload = (await response.json()) as {
+      translations: TranslatedSet[];
+    };
+    setTranslations(payload.translations);
   }
 
+  const canRefine =
+    resultsRequest !== null &&
+    (results?.mode === "bio" ||
+      results?.mode === "reply" ||
+      resultsRequest.has("image") ||
+      resultsRequest.has("images"));
+  const refineDisabledReason = canRefine
+    ? undefined
+    : "Upload the image again and generate to refine.";
+  const resultsLanguage = resultsRequest?.get("language");
+  // While replies stream in, the comments come from the request.
+  const replyCommentCards: ReplyCommentResult[] =
+    results?.mode === "reply"
+      ? (results.comments ?? resultComments.map((text) => ({ text })))
+      : [];
+  const escalatedCount = replyCommentCards.filter(
+    (comment) => comment.escalation,
+  ).length;
+
   async function handleCopy(text: string, key: string) {
     try {
       await navigator.clipboard.writeText(text);
@@ -227,12 +1318,12 @@ export default function CaptionCoachForm() {
 
   return (
     <div className="space-y-10">
-      <form className="space-y-8" onSubmit={handleSubmit}>
+      <form ref={formRef} className="space-y-8" onSubmit={handleSubmit}>
         <fieldset className="rounded-2xl border border-zinc-200 p-6">
           <legend className="text-sm font-semibold uppercase tracking-wide text-zinc-500">
             Output Type
           </legend>
-          <div className="mt-4 grid gap-3 sm:grid-cols-2">
+          <div className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
             {[
               {
                 label: "Captions (image + optional guidance)",
@@ -246,6 +1337,36 @@ export default function CaptionCoachForm() {
                 description:
                   "Skip the image. Provide your About text for polished bios.",
               },
+              {
+                label: "Alt text (image)",
+                value: "alt-text" as Mode,
+                description:
+                  "Upload an image for screen-reader alt text and a longer description.",
+              },
+              {
+                label: "Carousel (ordered images)",
+                value: "carousel" as Mode,
+                description:
+                  "One caption and hashtag set for a multi-image post, with an optional line per slide.",
+              },
+              {
+                label: "Comment replies (post + comments)",
+                value: "reply" as Mode,
+                description:
+                  "Paste a post and its comments for on-brand reply options, with sensitive ones flagged.",
+              },
+              {
+                label: "Batch captions (many images)",
+                value: "batch" as Mode,
+                description:
+                  "Upload a week of photos at once and export every caption set.",
+              },
+              {
+                label: "Compare tones (image or About text)",
+                value: "compare" as Mode,
+                description:
+                  "Draft the same captions or bio in several tones side by side, then pick a direction.",
+              },
             ].map((option) => {
               const isActive = mode === option.value;
               return (
@@ -281,84 +1402,203 @@ export default function CaptionCoachForm() {
 
         <div className="grid gap-6 md:grid-cols-[minmax(0,320px)_minmax(0,1fr)]">
           <div className="space-y-6">
+            {mode === "compare" && (
+              <CompareSourcePicker
+                value={compareSource}
+                onChange={onCompareSourceChange}
+              />
+            )}
+
+            <ImageUploadField
+              key={mode}
+              accept={imageAccept}
+              multiple={mode === "batch" || mode === "carousel"}
+              required={needsImage}
+              disabled={generationMode === "bio"}
+              maxImageBytes={maxImageBytes}
+              selectedName={imageFile?.name}
+              batchCount={batchFiles.length}
+              error={imageError ?? fieldErrors.image ?? fieldErrors.images}
+              onChange={onImageChange}
+            >
+              {mode === "carousel" && (
+                <>
+                  <CarouselSlides
+                    slides={slides}
+                    maxSlides={carouselSlides.max}
+                    disabled={isSubmitting}
+                    onMove={onMoveSlide}
+                    onRemove={onRemoveSlide}
+                  />
+                  <label className="flex cursor-pointer items-center gap-2 text-sm text-zinc-600">
+                    <input
+                      type="checkbox"
+                      checked={slideLines}
+                      onChange={(event) => setSlideLines(event.target.checked)}
+                      className="h-4 w-4 accent-[#6c5ce7]"
+                    />
+                    Write a short line for each slide
+                  </label>
+                </>
+              )}
+            </ImageUploadField>
+
+            {generationMode !== "alt-text" && (
+              <TonePicker
+                label={mode === "compare" ? "Tones to compare" : "Tone"}
+                badge={
+                  mode === "compare"
+                    ? {
+                        text: `Pick ${compareTones.min}–${compareTones.max}`,
+                        required: true,
+                      }
+                    : needsTone
+                      ? { text: "Required", required: true }
+                      : {
+                          text: "Optional (defaults to Classy)",
+                          required: false,
+                        }
+                }
+                tones={tones}
+                multiple={mode === "compare"}
+                selected={mode === "compare" ? selectedTones : [tone]}
+                maxSelected={compareTones.max}
+                error={fieldErrors.tone ?? fieldErrors.tones}
+                onChange={
+                  mode === "compare" ? onCompareToneChange : onToneChange
+                }
+              />
+            )}
+
             <div className="space-y-2">
-              <label className="font-medium text-zinc-900">
-                Upload image
-                {mode === "captions" ? (
-                  <span className="ml-2 text-xs font-semibold uppercase text-[#6c5ce7]">
-                    Required
-                  </span>
-                ) : (
-                  <span className="ml-2 text-xs text-zinc-500">Optional</span>
-                )}
+              <label htmlFor="platform" className="font-medium text-zinc-900">
+                Platform
               </label>
-              <input
-                type="file"
-                accept="image/png,image/jpeg"
-                disabled={mode === "bio"}
-                onChange={onImageChange}
-                className="block w-full text-sm text-zinc-600 file:mr-4 file:cursor-pointer file:rounded-lg file:border-0 file:bg-[#6c5ce7] file:px-4 file:py-2 file:text-sm file:font-medium file:text-white file:transition file:hover:bg-[#5843d8]"
-              />
+              <select
+                id="platform"
+                value={platform}
+                onChange={onPlatformChange}
+                className="w-full rounded-xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-700 shadow-sm outline-none ring-[#6c5ce7]/40 transition focus:border-[#6c5ce7] focus:ring-2"
+              >
+                {platformPresets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
               <p className="text-xs text-zinc-500">
-                JPG or PNG, up to 3MB. Guidance helps craft captions in at least
-                two variants.
+                {generationMode === "reply"
+                  ? `Replies up to ${maxCharsMax} characters each.`
+                  : needsTone
+                    ? `Up to ${platformPreset.captionMaxChars} characters with ${hashtagRangeLabel(platformPreset)} hashtags. ${platformPreset.linkNote}`
+                    : generationMode === "bio"
+                      ? `Bios up to ${platformPreset.bioMaxChars} characters.`
+                      : `Short alt text up to ${maxCharsMax} characters on every platform.`}
               </p>
-              {imageFile && (
-                <p className="text-sm text-zinc-700">
-                  Selected:{" "}
-                  <span className="font-medium text-[#6c5ce7]">
-                    {imageFile.name}
-                  </span>
+              {fieldErrors.platform && (
+                <p className="text-sm text-red-500" role="alert">
+                  {fieldErrors.platform}
                 </p>
               )}
-              {imageError && (
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="language" className="font-medium text-zinc-900">
+                Output language
+              </label>
+              <select
+                id="language"
+                value={language}
+                onChange={onLanguageChange}
+                className="w-full rounded-xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-700 shadow-sm outline-none ring-[#6c5ce7]/40 transition focus:border-[#6c5ce7] focus:ring-2"
+              >
+                {languages.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.nativeName}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-zinc-500">
+                Copy and hashtags are written in this language.
+              </p>
+              {fieldErrors.language && (
                 <p className="text-sm text-red-500" role="alert">
-                  {imageError}
+                  {fieldErrors.language}
                 </p>
               )}
             </div>
 
-            <div className="space-y-2">
-              <span className="font-medium text-zinc-900">
-                Tone
-                {mode === "captions" ? (
-                  <span className="ml-2 text-xs font-semibold uppercase text-[#6c5ce7]">
-                    Required
-                  </span>
-                ) : (
-                  <span className="ml-2 text-xs text-zinc-500">
-                    Optional (defaults to Classy)
-                  </span>
+            {brandVoices.length > 0 && generationMode !== "alt-text" && (
+              <div className="space-y-2">
+                <label
+                  htmlFor="brand-voice"
+                  className="font-medium text-zinc-900"
+                >
+                  Brand voice (optional)
+                </label>
+                <select
+                  id="brand-voice"
+                  value={brandVoiceId}
+                  onChange={onBrandVoiceChange}
+                  className="w-full rounded-xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-700 shadow-sm outline-none ring-[#6c5ce7]/40 transition focus:border-[#6c5ce7] focus:ring-2"
+                >
+                  <option value="">No brand voice</option>
+                  {brandVoices.map((voice) => (
+                    <option key={voice.id} value={voice.id}>
+                      {voice.name}
+                    </option>
+                  ))}
+                </select>
+                {brandVoiceId && (
+                  <p className="text-xs text-zinc-500">
+                    {
+                      brandVoices.find((voice) => voice.id === brandVoiceId)
+                        ?.description
+                    }
+                  </p>
+                )}
+                {fieldErrors.brandVoiceId && (
+                  <p className="text-sm text-red-500" role="alert">
+                    {fieldErrors.brandVoiceId}
+                  </p>
                 )}
-              </span>
-              <div className="grid grid-cols-2 gap-3">
-                {tones.map((option) => {
-                  const checked = tone === option.value;
-                  return (
-                    <label
-                      key={option.value}
-                      className={classNames(
-                        "flex cursor-pointer items-center justify-between rounded-xl border px-4 py-3 text-sm transition",
-                        checked
-                          ? "border-[#6c5ce7] bg-[#f7f5ff] text-[#4334c9]"
-                          : "border-zinc-200 text-zinc-600 hover:border-[#6c5ce7]",
-                      )}
-                    >
-                      <span className="font-medium">{option.label}</span>
-                      <input
-                        type="radio"
-                        name="tone"
-                        value={option.value}
-                        checked={checked}
-                        onChange={onToneChange}
-                        className="h-4 w-4 accent-[#6c5ce7]"
-                        aria-label={option.label}
-                      />
-                    </label>
-                  );
-                })}
               </div>
-            </div>
+            )}
+
+            {variantRange.max > variantRange.min && (
+              <div className="space-y-2">
+                <label htmlFor="variants" className="font-medium text-zinc-900">
+                  {variantLabels[generationMode]}
+                </label>
+                <select
+                  id="variants"
+                  value={variants}
+                  onChange={onVariantsChange}
+                  className="w-full rounded-xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-700 shadow-sm outline-none ring-[#6c5ce7]/40 transition focus:border-[#6c5ce7] focus:ring-2"
+                >
+                  {Array.from(
+                    { length: variantRange.max - variantRange.min + 1 },
+                    (_, index) => variantRange.min + index,
+                  ).map((count) => (
+                    <option key={count} value={count}>
+                      {count}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-zinc-500">
+                  {mode === "batch"
+                    ? "How many captions to draft for each image."
+                    : mode === "compare"
+                      ? "How many variants to draft in each tone."
+                      : "How many variants to draft."}
+                </p>
+                {fieldErrors.variants && (
+                  <p className="text-sm text-red-500" role="alert">
+                    {fieldErrors.variants}
+                  </p>
+                )}
+              </div>
+            )}
 
             <div className="space-y-2">
               <label
@@ -380,78 +1620,102 @@ export default function CaptionCoachForm() {
               />
               <p className="text-xs text-zinc-500">
                 Keep between {maxCharsMin} and {maxCharsMax} characters. Leave
-                blank for no cap.
+                blank to use the{" "}
+                {generationMode === "alt-text"
+                  ? "alt text"
+                  : platformPreset.label}{" "}
+                limit.
               </p>
-              {!maxCharsIsValid && (
+              {!maxCharsIsValid ? (
                 <p className="text-sm text-red-500" role="alert">
                   Max characters must be between {maxCharsMin} and{" "}
                   {maxCharsMax}.
                 </p>
+              ) : (
+                fieldErrors.maxChars && (
+                  <p className="text-sm text-red-500" role="alert">
+                    {fieldErrors.maxChars}
+                  </p>
+                )
               )}
             </div>
           </div>
 
-          <div className="space-y-2">
-            <label
-              htmlFor="guidance"
-              className="font-medium text-zinc-900"
-            >
-              Things to mention, or write a short about blurb
-              {mode === "bio" ? (
-                <span className="ml-2 text-xs font-semibold uppercase text-[#6c5ce7]">
-                  Required
-                </span>
-              ) : (
-                <span className="ml-2 text-xs text-zinc-500">Optional</span>
-              )}
-            </label>
-            <textarea
-              id="guidance"
-              name="guidance"
-              rows={12}
-              placeholder="e.g., brand is eco-friendly; mention weekend market; upbeat vibe — or I am Sara, indie baker in Stockholm; rye sourdough; dog mom"
+          <div className="space-y-6">
+            {mode === "reply" && (
+              <ReplyInputs
+                post={post}
+                comments={comments}
+                maxComments={replyComments.max}
+                disabled={isSubmitting}
+                postError={fieldErrors.post}
+                commentsError={fieldErrors.comments}
+                onPostChange={(next) => {
+                  clearFieldError("post");
+                  setPost(next);
+                }}
+                onCommentsChange={(next) => {
+                  clearFieldError("comments");
+                  setComments(next);
+                }}
+              />
+            )}
+            <GuidanceField
               value={guidance}
+              isBio={generationMode === "bio"}
+              isReply={mode === "reply"}
+              error={fieldErrors.guidance}
               onChange={onGuidanceChange}
-              maxLength={
-                mode === "captions"
-                  ? maxCaptionGuidanceLength
-                  : maxBioGuidanceLength
-              }
-              className="h-full min-h-[280px] w-full rounded-2xl border border-zinc-200 px-4 py-4 text-sm leading-relaxed text-zinc-700 shadow-sm outline-none ring-[#6c5ce7]/40 transition focus:border-[#6c5ce7] focus:ring-2"
-              aria-describedby="guidance-help"
             />
-            <div className="flex items-center justify-between text-xs text-zinc-500">
-              <p id="guidance-help">
-                Used as guidance for captions, or as the source text for bios.
-              </p>
-              <span>{guidanceLimitText}</span>
-            </div>
-            {mode === "bio" && guidance.length > 0 && !guidanceIsValidForBio && (
-              <p className="text-sm text-red-500" role="alert">
-                About text must be between {minBioGuidanceLength} and{" "}
-                {maxBioGuidanceLength} characters.
-              </p>
-            )}
-            {mode === "captions" &&
-              guidance.length > maxCaptionGuidanceLength && (
-                <p className="text-sm text-red-500" role="alert">
-                  Guidance must be {maxCaptionGuidanceLength} characters or
-                  fewer.
-                </p>
-              )}
           </div>
         </div>
 
-        {error && (
+        {retrySeconds > 0 ? (
           <div
-            className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-600"
-            role="alert"
+            className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700"
+            role="status"
           >
-            {error}
+            {error ?? "Too many requests."} You can generate again in{" "}
+            {formatWait(retrySeconds)}.
           </div>
+        ) : (
+          error && (
+            <div
+              className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-600"
+              role="alert"
+            >
+              {error}
+            </div>
+          )
         )}
 
-        <div className="flex items-center justify-end">
+        <div className="flex items-center justify-end gap-4">
+          <label
+            className="mr-auto flex cursor-pointer items-center gap-2 text-sm text-zinc-600"
+            title="Skip saved results for the same image and settings"
+          >
+            <input
+              type="checkbox"
+              checked={freshVariants}
+              onChange={(event) => setFreshVariants(event.target.checked)}
+              className="h-4 w-4 accent-[#6c5ce7]"
+            />
+            Fresh variants
+          </label>
+          {isSubmitting && statusMessage && (
+            <p className="text-sm text-zinc-500" role="status">
+              {statusMessage}
+            </p>
+          )}
+          {isSubmitting && (
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="rounded-xl border border-zinc-200 px-4 py-3 text-sm font-medium text-zinc-600 transition hover:border-zinc-300 hover:text-zinc-900"
+            >
+              Cancel
+            </button>
+          )}
           <button
             type="submit"
             disabled={!ctaEnabled || isSubmitting}
@@ -462,24 +1726,97 @@ export default function CaptionCoachForm() {
                 : "cursor-not-allowed opacity-60",
             )}
           >
-            {isSubmitting ? "Drafting your best lines…" : "Generate"}
+            {isSubmitting
+              ? "Drafting…"
+              : retrySeconds > 0
+                ? `Wait ${formatWait(retrySeconds)}`
+                : "Generate"}
           </button>
         </div>
       </form>
 
       {results && (
         <section className="space-y-6">
-          <div>
-            <h2 className="text-lg font-semibold text-zinc-900">
-              {results.mode === "captions"
-                ? "Your caption set"
-                : "Your bio options"}
-            </h2>
-            <p className="text-sm text-zinc-500">
-              {results.mode === "captions"
-                ? "Five distinct captions with hashtag lines."
-                : "Three short bios crafted from your About text."}
+          {placeholderReason && (
+            <div
+              className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700"
+              role="alert"
+            >
+              <p>
+                <span className="font-semibold">
+                  These are placeholders, not generated copy.
+                </span>{" "}
+                {placeholderReasons[placeholderReason]}
+              </p>
+              {placeholderReason !== "not_configured" && (
+                <button
+                  type="button"
+                  onClick={() => formRef.current?.requestSubmit()}
+                  disabled={!ctaEnabled || isSubmitting}
+                  className="rounded-lg border border-amber-300 bg-white px-3 py-1.5 text-xs font-semibold text-amber-700 transition hover:border-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Try again
+                </button>
+              )}
+            </div>
+          )}
+          {resultsNotice && (
+            <p
+              className="rounded-xl border border-[#d9d3ff] bg-[#f7f5ff] px-4 py-3 text-sm text-[#4334c9]"
+              role="status"
+            >
+              {resultsNotice}
             </p>
+          )}
+          {moderationSummary(results.moderation) && (
+            <p
+              className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700"
+              role="status"
+            >
+              {moderationSummary(results.moderation)}
+            </p>
+          )}
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-zinc-900">
+                {results.mode === "captions"
+                  ? "Your caption set"
+                  : results.mode === "bio"
+                    ? "Your bio options"
+                    : results.mode === "carousel"
+                      ? "Your carousel captions"
+                      : results.mode === "reply"
+                        ? "Your reply drafts"
+                        : "Your alt text"}
+              </h2>
+              <p className="text-sm text-zinc-500">
+                {results.mode === "captions"
+                  ? `${itemCount(results.items.length, "distinct caption")} with hashtag lines.`
+                  : results.mode === "bio"
+                    ? `${itemCount(results.items.length, "short bio")} crafted from your About text.`
+                    : results.mode === "carousel"
+                      ? `${itemCount(results.items.length, "caption")}${resultSlides.length > 0 ? ` for ${itemCount(resultSlides.length, "slide")}` : ""}, each with one shared hashtag line.`
+                      : results.mode === "reply"
+                        ? `${itemCount(results.items.filter(Boolean).length, "reply option")} for ${itemCount(replyCommentCards.length, "comment")}${escalatedCount > 0 ? `; ${escalatedCount} flagged for a person` : ""}.`
+                        : `${itemCount(results.items.length, "option")}, each with short alt text and a longer description.`}
+              </p>
+            </div>
+            <ExportMenu
+              sets={[
+                resultToExportSet({
+                  ...results,
+                  items: results.items.filter(Boolean),
+                } as ResultState),
+              ]}
+              fileNamePrefix={
+                results.mode === "bio"
+                  ? "bios"
+                  : results.mode === "reply"
+                    ? "replies"
+                    : results.mode
+              }
+              disabled={isSubmitting}
+            />
           </div>
 
           <div className="grid gap-4">
@@ -494,6 +1831,11 @@ export default function CaptionCoachForm() {
                     <header className="mb-3 flex items-center justify-between">
                       <h3 className="text-sm font-semibold uppercase tracking-wide text-[#6c5ce7]">
                         Caption {index + 1}
+                        {adjustmentLabel(results, index) && (
+                          <span className="ml-2 text-xs font-medium normal-case tracking-normal text-amber-600">
+                            {adjustmentLabel(results, index)}
+                          </span>
+                        )}
                       </h3>
                       {copiedKey && copiedKey.startsWith(captionKey) && (
                         <span className="text-xs font-medium text-emerald-500">
@@ -504,32 +1846,53 @@ export default function CaptionCoachForm() {
                     <p className="mb-3 text-sm leading-relaxed text-zinc-800">
                       {item.text}
                     </p>
-                    <p className="mb-4 text-xs font-medium uppercase tracking-wide text-zinc-500">
-                      Hashtags
-                    </p>
-                    <p className="text-sm text-zinc-600">{item.hashtags}</p>
+                    {item.hashtags && (
+                      <>
+                        <p className="mb-4 text-xs font-medium uppercase tracking-wide text-zinc-500">
+                          Hashtags
+                        </p>
+                        <p className="text-sm text-zinc-600">{item.hashtags}</p>
+                      </>
+                    )}
                     <div className="mt-4 flex flex-wrap gap-3">
                       <button
                         type="button"
                         onClick={() =>
                           handleCopy(item.text, `${captionKey}-text`)
                         }
-                        className="rounded-lg border border-[#6c5ce7] px-4 py-2 text-xs font-semibold text-[#6c5ce7] transition hover:bg-[#6c5ce7] hover:text-white"
+                        disabled={isSubmitting}
+                        className="rounded-lg border border-[#6c5ce7] px-4 py-2 text-xs font-semibold text-[#6c5ce7] transition hover:bg-[#6c5ce7] hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
                       >
                         Copy caption
                       </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          handleCopy(
-                            `${item.text}\n\n${item.hashtags}`,
-                            `${captionKey}-full`,
-                          )
+                      {item.hashtags && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            handleCopy(
+                              `${item.text}\n\n${item.hashtags}`,
+                              `${captionKey}-full`,
+                            )
+                          }
+                          disabled={isSubmitting}
+                          className="rounded-lg border border-[#4334c9] bg-[#4334c9] px-4 py-2 text-xs font-semibold text-white transition hover:bg-[#3425b7] disabled:cursor-not-allowed disabled:opacity-60"
+                        >
+                          Copy with hashtags
+                        </button>
+                      )}
+                    </div>
+                    <div className="mt-4">
+                      <RefineControls<CaptionResult>
+                        disabled={isSubmitting || !canRefine}
+                        disabledReason={refineDisabledReason}
+                        onRequest={async (options) =>
+                          (await requestRefinement(
+                            index,
+                            options,
+                          )) as CaptionResult[]
                         }
-                        className="rounded-lg border border-[#4334c9] bg-[#4334c9] px-4 py-2 text-xs font-semibold text-white transition hover:bg-[#3425b7]"
-                      >
-                        Copy with hashtags
-                      </button>
+                        onApply={(revision) => applyRefinement(index, revision)}
+                      />
                     </div>
                   </article>
                 );
@@ -546,6 +1909,11 @@ export default function CaptionCoachForm() {
                     <header className="mb-3 flex items-center justify-between">
                       <h3 className="text-sm font-semibold uppercase tracking-wide text-[#6c5ce7]">
                         Option {index + 1}
+                        {adjustmentLabel(results, index) && (
+                          <span className="ml-2 text-xs font-medium normal-case tracking-normal text-amber-600">
+                            {adjustmentLabel(results, index)}
+                          </span>
+                        )}
                       </h3>
                       {copiedKey === bioKey && (
                         <span className="text-xs font-medium text-emerald-500">
@@ -559,16 +1927,336 @@ export default function CaptionCoachForm() {
                     <button
                       type="button"
                       onClick={() => handleCopy(item.text, bioKey)}
-                      className="rounded-lg border border-[#6c5ce7] bg-[#6c5ce7] px-4 py-2 text-xs font-semibold text-white transition hover:bg-[#5843d8]"
+                      disabled={isSubmitting}
+                      className="rounded-lg border border-[#6c5ce7] bg-[#6c5ce7] px-4 py-2 text-xs font-semibold text-white transition hover:bg-[#5843d8] disabled:cursor-not-allowed disabled:opacity-60"
                     >
                       Copy
                     </button>
+                    <div className="mt-4">
+                      <RefineControls<BioResult>
+                        disabled={isSubmitting || !canRefine}
+                        onRequest={(options) =>
+                          requestRefinement(index, options)
+                        }
+                        onApply={(revision) => applyRefinement(index, revision)}
+                      />
+                    </div>
+                  </article>
+                );
+              })}
+
+            {results.mode === "alt-text" &&
+              results.items.map((item, index) => {
+                const altKey = `alt-${index}`;
+                return (
+                  <article
+                    key={altKey}
+                    className="rounded-2xl border border-zinc-200 bg-[#fbfbff] p-5 shadow-sm"
+                  >
+                    <header className="mb-3 flex items-center justify-between">
+                      <h3 className="text-sm font-semibold uppercase tracking-wide text-[#6c5ce7]">
+                        {results.items.length > 1
+                          ? `Alt text ${index + 1}`
+                          : "Alt text"}
+                        {adjustmentLabel(results, index) && (
+                          <span className="ml-2 text-xs font-medium normal-case tracking-normal text-amber-600">
+                            {adjustmentLabel(results, index)}
+                          </span>
+                        )}
+                      </h3>
+                      {copiedKey && copiedKey.startsWith(altKey) && (
+                        <span className="text-xs font-medium text-emerald-500">
+                          Copied!
+                        </span>
+                      )}
+                    </header>
+                    <p className="mb-1 text-sm leading-relaxed text-zinc-800">
+                      {item.text}
+                    </p>
+                    <p className="mb-4 text-xs text-zinc-500">
+                      {countGraphemes(item.text)} characters
+                    </p>
+                    <p className="mb-2 text-xs font-medium uppercase tracking-wide text-zinc-500">
+                      Long description
+                    </p>
+                    <p className="text-sm leading-relaxed text-zinc-600">
+                      {item.description}
+                    </p>
+                    <div className="mt-4 flex flex-wrap gap-3">
+                      <button
+                        type="button"
+                        onClick={() => handleCopy(item.text, `${altKey}-text`)}
+                        disabled={isSubmitting}
+                        className="rounded-lg border border-[#6c5ce7] bg-[#6c5ce7] px-4 py-2 text-xs font-semibold text-white transition hover:bg-[#5843d8] disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Copy alt text
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          handleCopy(item.description, `${altKey}-description`)
+                        }
+                        disabled={isSubmitting}
+                        className="rounded-lg border border-[#6c5ce7] px-4 py-2 text-xs font-semibold text-[#6c5ce7] transition hover:bg-[#6c5ce7] hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Copy description
+                      </button>
+                    </div>
+                    <div className="mt-4">
+                      <RefineControls<AltTextResult>
+                        disabled={isSubmitting || !canRefine}
+                        disabledReason={refineDisabledReason}
+                        onRequest={async (options) =>
+                          (await requestRefinement(
+                            index,
+                            options,
+                          )) as AltTextResult[]
+                        }
+                        onApply={(revision) => applyRefinement(index, revision)}
+                      />
+                    </div>
+                  </article>
+                );
+              })}
+
+            {results.mode === "carousel" &&
+              results.items.map((item, index) => {
+                const carouselKey = `carousel-${index}`;
+                return (
+                  <article
+                    key={carouselKey}
+                    className="rounded-2xl border border-zinc-200 bg-[#fbfbff] p-5 shadow-sm"
+                  >
+                    <header className="mb-3 flex items-center justify-between">
+                      <h3 className="text-sm font-semibold uppercase tracking-wide text-[#6c5ce7]">
+                        Caption {index + 1}
+                        {adjustmentLabel(results, index) && (
+                          <span className="ml-2 text-xs font-medium normal-case tracking-normal text-amber-600">
+                            {adjustmentLabel(results, index)}
+                          </span>
+                        )}
+                      </h3>
+                      {copiedKey && copiedKey.startsWith(carouselKey) && (
+                        <span className="text-xs font-medium text-emerald-500">
+                          Copied!
+                        </span>
+                      )}
+                    </header>
+                    <p className="mb-3 text-sm leading-relaxed text-zinc-800">
+                      {item.text}
+                    </p>
+                    {item.slides.length > 0 && (
+                      <ol className="mb-4 space-y-2">
+                        {item.slides.map((line, slideIndex) => (
+                          <li
+                            key={`${carouselKey}-slide-${slideIndex}`}
+                            className="flex items-center gap-3"
+                          >
+                            {resultSlides[slideIndex] ? (
+                              <Image
+                                src={resultSlides[slideIndex].previewUrl}
+                                alt={`Slide ${slideIndex + 1}`}
+                                width={40}
+                                height={40}
+                                unoptimized
+                                className="h-10 w-10 shrink-0 rounded-md object-cover"
+                              />
+                            ) : (
+                              <span className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-zinc-100 text-xs font-semibold text-zinc-500">
+                                {slideIndex + 1}
+                              </span>
+                            )}
+                            <p className="text-sm text-zinc-700">{line}</p>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                    <p className="mb-4 text-xs font-medium uppercase tracking-wide text-zinc-500">
+                      Hashtags for the whole post
+                    </p>
+                    <p className="text-sm text-zinc-600">{item.hashtags}</p>
+                    <div className="mt-4 flex flex-wrap gap-3">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          handleCopy(
+                            `${item.text}\n\n${item.hashtags}`,
+                            `${carouselKey}-full`,
+                          )
+                        }
+                        disabled={isSubmitting}
+                        className="rounded-lg border border-[#4334c9] bg-[#4334c9] px-4 py-2 text-xs font-semibold text-white transition hover:bg-[#3425b7] disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Copy with hashtags
+                      </button>
+                      {item.slides.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            handleCopy(
+                              item.slides
+                                .map(
+                                  (line, slideIndex) =>
+                                    `${slideIndex + 1}. ${line}`,
+                                )
+                                .join("\n"),
+                              `${carouselKey}-slides`,
+                            )
+                          }
+                          disabled={isSubmitting}
+                          className="rounded-lg border border-[#6c5ce7] px-4 py-2 text-xs font-semibold text-[#6c5ce7] transition hover:bg-[#6c5ce7] hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
+                        >
+                          Copy slide lines
+                        </button>
+                      )}
+                    </div>
+                    <div className="mt-4">
+                      <RefineControls<CarouselResult>
+                        disabled={isSubmitting || !canRefine}
+                        disabledReason={refineDisabledReason}
+                        onRequest={async (options) =>
+                          (await requestRefinement(
+                            index,
+                            options,
+                          )) as CarouselResult[]
+                        }
+                        onApply={(revision) => applyRefinement(index, revision)}
+                      />
+                    </div>
+                  </article>
+                );
+              })}
+
+            {results.mode === "reply" &&
+              replyCommentCards.map((comment, commentIndex) => {
+                const commentKey = `reply-${commentIndex}`;
+                const replies = results.items.flatMap((item, index) =>
+                  item && item.comment === commentIndex
+                    ? [{ item, index }]
+                    : [],
+                );
+                return (
+                  <article
+                    key={commentKey}
+                    className="rounded-2xl border border-zinc-200 bg-[#fbfbff] p-5 shadow-sm"
+                  >
+                    <header className="mb-3 flex items-center justify-between">
+                      <h3 className="text-sm font-semibold uppercase tracking-wide text-[#6c5ce7]">
+                        Comment {commentIndex + 1}
+                        {comment.escalation && (
+                          <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium normal-case tracking-normal text-amber-700">
+                            Needs a person
+                          </span>
+                        )}
+                      </h3>
+                      {copiedKey && copiedKey.startsWith(`${commentKey}-`) && (
+                        <span className="text-xs font-medium text-emerald-500">
+                          Copied!
+                        </span>
+                      )}
+                    </header>
+                    <blockquote className="mb-4 whitespace-pre-line border-l-2 border-zinc-200 pl-3 text-sm text-zinc-600">
+                      {comment.text}
+                    </blockquote>
+                    {comment.escalation ? (
+                      <p
+                        className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700"
+                        role="status"
+                      >
+                        {comment.escalation}
+                      </p>
+                    ) : (
+                      <ol className="space-y-4">
+                        {replies.map(({ item, index }, replyIndex) => (
+                          <li
+                            key={index}
+                            className="space-y-3 rounded-xl border border-zinc-200 bg-white p-4"
+                          >
+                            <p className="text-xs font-medium uppercase tracking-wide text-zinc-500">
+                              Reply {replyIndex + 1}
+                              {adjustmentLabel(results, index) && (
+                                <span className="ml-2 normal-case tracking-normal text-amber-600">
+                                  {adjustmentLabel(results, index)}
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-sm leading-relaxed text-zinc-800">
+                              {item.text}
+                            </p>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                handleCopy(item.text, `${commentKey}-${index}`)
+                              }
+                              disabled={isSubmitting}
+                              className="rounded-lg border border-[#6c5ce7] bg-[#6c5ce7] px-4 py-2 text-xs font-semibold text-white transition hover:bg-[#5843d8] disabled:cursor-not-allowed disabled:opacity-60"
+                            >
+                              Copy
+                            </button>
+                            <RefineControls<ReplyResult>
+                              disabled={isSubmitting || !canRefine}
+                              disabledReason={refineDisabledReason}
+                              onRequest={async (options) =>
+                                (await requestRefinement(
+                                  index,
+                                  options,
+                                )) as ReplyResult[]
+                              }
+                              onApply={(revision) =>
+                                applyRefinement(index, revision)
+                              }
+                            />
+                          </li>
+                        ))}
+                      </ol>
+                    )}
                   </article>
                 );
               })}
           </div>
+
+          {resultsRequest && results.mode !== "reply" && (
+            <TranslationPanel
+              sourceLanguage={
+                isLanguageId(resultsLanguage)
+                  ? resultsLanguage
+                  : defaultLanguageId
+              }
+              translations={translations}
+              disabled={isSubmitting}
+              copiedKey={copiedKey}
+              onCopy={handleCopy}
+              onTranslate={handleTranslate}
+            />
+          )}
         </section>
       )}
+
+      {compareResults && (
+        <CompareResults
+          results={compareResults}
+          mode={compareSource}
+          isRunning={isSubmitting}
+          copiedKey={copiedKey}
+          onCopy={handleCopy}
+          onUseTone={handleUseTone}
+        />
+      )}
+
+      {batchResults && (
+        <BatchResults
+          results={batchResults}
+          isRunning={isSubmitting}
+          copiedKey={copiedKey}
+          onCopy={handleCopy}
+        />
+      )}
+
+      <HistoryPanel
+        refreshKey={historyKey}
+        tones={tones}
+        onRestore={handleRestore}
+      />
     </div>
   );
 }
@@ -0,0 +1,143 @@
+"use client";
+
+import Image from "next/image";
+import { DragEvent, useState } from "react";
+
+/** `previewUrl` is an object URL; the owner revokes it. */
+export type CarouselSlide = {
+  id: string;
+  file: File;
+  previewUrl: string;
+};
+
+type CarouselSlidesProps = {
+  slides: CarouselSlide[];
+  maxSlides: number;
+  disabled: boolean;
+  onMove: (from: number, to: number) => void;
+  onRemove: (index: number) => void;
+};
+
+/** Moves the entry at `from` to `to`, shifting the ones in between. */
+export function moveSlide<T>(items: T[], from: number, to: number) {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/**
+ * Slide previews in post order. Tiles can be dragged into place; the arrow
+ * buttons do the same for keyboard users.
+ */
+export default function CarouselSlides({
+  slides,
+  maxSlides,
+  disabled,
+  onMove,
+  onRemove,
+}: CarouselSlidesProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  function onDragStart(event: DragEvent<HTMLLIElement>, index: number) {
+    event.dataTransfer.effectAllowed = "move";
+    setDragIndex(index);
+  }
+
+  function onDragOver(event: DragEvent<HTMLLIElement>, index: number) {
+    if (dragIndex === null) return;
+
+    event.preventDefault();
+    setOverIndex(index);
+  }
+
+  function onDrop(event: DragEvent<HTMLLIElement>, index: number) {
+    event.preventDefault();
+    if (dragIndex !== null && dragIndex !== index) {
+      onMove(dragIndex, index);
+    }
+    onDragEnd();
+  }
+
+  function onDragEnd() {
+    setDragIndex(null);
+    setOverIndex(null);
+  }
+
+  if (slides.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-zinc-500">
+        {slides.length} of {maxSlides} slides. Drag to reorder; the first slide
+        is the cover.
+      </p>
+      <ol className="grid grid-cols-3 gap-3">
+        {slides.map((slide, index) => (
+          <li
+            key={slide.id}
+            draggable={!disabled}
+            onDragStart={(event) => onDragStart(event, index)}
+            onDragOver={(event) => onDragOver(event, index)}
+            onDrop={(event) => onDrop(event, index)}
+            onDragEnd={onDragEnd}
+            className={[
+              "space-y-1 rounded-xl border p-1.5 transition",
+              disabled ? "" : "cursor-grab",
+              dragIndex === index ? "opacity-50" : "",
+              overIndex === index && dragIndex !== index
+                ? "border-[#6c5ce7] bg-[#f7f5ff]"
+                : "border-zinc-200",
+            ]
+              .filter(Boolean)
+              .join(" ")}
+          >
+            <div className="relative aspect-square overflow-hidden rounded-lg bg-zinc-100">
+              <Image
+                src={slide.previewUrl}
+                alt={`Slide ${index + 1}: ${slide.file.name}`}
+                fill
+                unoptimized
+                sizes="96px"
+                className="object-cover"
+              />
+              <span className="absolute left-1 top-1 rounded bg-white/90 px-1.5 text-xs font-semibold text-[#4334c9]">
+                {index + 1}
+              </span>
+            </div>
+            <div className="flex items-center justify-between text-xs">
+              <button
+                type="button"
+                onClick={() => onMove(index, index - 1)}
+                disabled={disabled || index === 0}
+                className="px-1 text-zinc-500 hover:text-[#6c5ce7] disabled:opacity-30"
+                aria-label={`Move slide ${index + 1} earlier`}
+              >
+                ←
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(index)}
+                disabled={disabled}
+                className="px-1 text-zinc-500 hover:text-red-500 disabled:opacity-30"
+                aria-label={`Remove slide ${index + 1}`}
+              >
+                ✕
+              </button>
+              <button
+                type="button"
+                onClick={() => onMove(index, index + 1)}
+                disabled={disabled || index === slides.length - 1}
+                className="px-1 text-zinc-500 hover:text-[#6c5ce7] disabled:opacity-30"
+                aria-label={`Move slide ${index + 1} later`}
+              >
+                →
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import ExportMenu from "@/components/export-menu";
+import { compareToExportSets } from "@/lib/export";
+import type { CompareToneResult } from "@/lib/generation/compare";
+
+type CompareResultsProps = {
+  results: CompareToneResult[];
+  mode: "captions" | "bio";
+  isRunning: boolean;
+  copiedKey: string | null;
+  onCopy: (text: string, key: string) => void;
+  onUseTone: (tone: string) => void;
+};
+
+const statusLabels: Record<CompareToneResult["status"], string> = {
+  running: "Drafting…",
+  done: "Done",
+  failed: "Failed",
+};
+
+function columnClasses(count: number) {
+  if (count >= 4) return "md:grid-cols-2 lg:grid-cols-4";
+  return count === 3 ? "md:grid-cols-3" : "md:grid-cols-2";
+}
+
+/** One column per tone, in the order the tones were picked. */
+export default function CompareResults({
+  results,
+  mode,
+  isRunning,
+  copiedKey,
+  onCopy,
+  onUseTone,
+}: CompareResultsProps) {
+  const finished = results.filter(
+    (result) => result.status !== "running",
+  ).length;
+  const failed = results.filter((result) => result.status === "failed").length;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900">
+            Tone comparison
+          </h2>
+          <p className="text-sm text-zinc-500" role="status">
+            {finished} of {results.length} tones drafted
+            {failed > 0 ? ` · ${failed} failed` : ""}
+          </p>
+        </div>
+        <ExportMenu
+          sets={compareToExportSets(results, mode)}
+          fileNamePrefix={mode === "bio" ? "bios-compare" : "captions-compare"}
+          disabled={isRunning}
+        />
+      </div>
+
+      <div className={`grid gap-4 ${columnClasses(results.length)}`}>
+        {results.map((result, toneIndex) => (
+          <article
+            key={result.tone}
+            className="flex flex-col gap-3 rounded-2xl border border-zinc-200 bg-[#fbfbff] p-5 shadow-sm"
+          >
+            <header className="flex items-center justify-between gap-3">
+              <h3 className="truncate text-sm font-semibold uppercase tracking-wide text-[#6c5ce7]">
+                {result.label}
+              </h3>
+              <span
+                className={
+                  result.status === "failed"
+                    ? "text-xs font-medium text-red-500"
+                    : result.status === "done"
+                      ? "text-xs font-medium text-emerald-500"
+                      : "text-xs font-medium text-zinc-500"
+                }
+              >
+                {result.placeholder ? "Placeholder" : statusLabels[result.status]}
+              </span>
+            </header>
+
+            {result.placeholder && (
+              <p className="rounded-lg bg-amber-50 px-3 py-2 text-xs text-amber-700">
+                The model couldn&apos;t draft this tone, so these are
+                placeholders.
+              </p>
+            )}
+
+            {result.error && (
+              <p className="text-sm text-red-500" role="alert">
+                {result.error}
+              </p>
+            )}
+
+            {result.items?.map((item, index) => {
+              const key = `compare-${toneIndex}-${index}`;
+              const hashtags = "hashtags" in item ? item.hashtags : "";
+              return (
+                <div
+                  key={key}
+                  className="space-y-1 border-t border-zinc-100 pt-3"
+                >
+                  <p className="text-sm leading-relaxed text-zinc-800">
+                    {item.text}
+                  </p>
+                  {hashtags && (
+                    <p className="text-xs text-zinc-500">{hashtags}</p>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onCopy(
+                        hashtags ? `${item.text}\n\n${hashtags}` : item.text,
+                        key,
+                      )
+                    }
+                    className="text-xs font-semibold text-[#6c5ce7] hover:underline"
+                  >
+                    {copiedKey === key ? "Copied!" : "Copy"}
+                  </button>
+                </div>
+              );
+            })}
+
+            {result.status === "done" && !result.placeholder && (
+              <button
+                type="button"
+                onClick={() => onUseTone(result.tone)}
+                disabled={isRunning}
+                className="mt-auto rounded-lg border border-[#6c5ce7] px-4 py-2 text-xs font-semibold text-[#6c5ce7] transition hover:bg-[#6c5ce7] hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Use this tone
+              </button>
+            )}
+          </article>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import type { ChangeEvent } from "react";
+import { optionCardClasses } from "@/components/tone-picker";
+
+/** What a tone comparison drafts: captions of an image or bios. */
+export type CompareSource = "captions" | "bio";
+
+type CompareSourcePickerProps = {
+  value: CompareSource;
+  onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+};
+
+const sourceOptions: Array<{ label: string; value: CompareSource }> = [
+  { label: "Captions", value: "captions" },
+  { label: "Bios", value: "bio" },
+];
+
+export default function CompareSourcePicker({
+  value,
+  onChange,
+}: CompareSourcePickerProps) {
+  return (
+    <div className="space-y-2">
+      <span className="font-medium text-zinc-900">Compare</span>
+      <div className="grid grid-cols-2 gap-3">
+        {sourceOptions.map((option) => {
+          const checked = value === option.value;
+          return (
+            <label key={option.value} className={optionCardClasses(checked)}>
+              <span className="font-medium">{option.label}</span>
+              <input
+                type="radio"
+                name="compareSource"
+                value={option.value}
+                checked={checked}
+                onChange={onChange}
+                className="h-4 w-4 accent-[#6c5ce7]"
+                aria-label={option.label}
+              />
+            </label>
+          );
+        })}
+      </div>
+      <p className="text-xs text-zinc-500">
+        Captions need an image; bios are drafted from your About text.
+      </p>
+    </div>
+  );
+}
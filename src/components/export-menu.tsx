@@ -0,0 +1,54 @@
+"use client";
+
+import { useState } from "react";
+import {
+  downloadExportFile,
+  exportFileName,
+  exportFormats,
+  exportSets,
+  type ExportFormat,
+  type ExportSet,
+} from "@/lib/export";
+
+type ExportMenuProps = {
+  sets: ExportSet[];
+  fileNamePrefix: string;
+  disabled?: boolean;
+};
+
+export default function ExportMenu({
+  sets,
+  fileNamePrefix,
+  disabled = false,
+}: ExportMenuProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={format}
+        onChange={(event) => setFormat(event.target.value as ExportFormat)}
+        className="rounded-lg border border-zinc-200 bg-white px-3 py-2 text-xs text-zinc-700"
+        aria-label="Export format"
+      >
+        {exportFormats.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() =>
+          downloadExportFile(
+            exportSets(sets, format, exportFileName(fileNamePrefix)),
+          )
+        }
+        className="rounded-lg border border-[#4334c9] bg-[#4334c9] px-4 py-2 text-xs font-semibold text-white transition hover:bg-[#3425b7] disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Export
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import type { ChangeEvent } from "react";
+import {
+  maxBioGuidanceLength,
+  maxCaptionGuidanceLength,
+  minBioGuidanceLength,
+} from "@/lib/generation/input-limits";
+
+type GuidanceFieldProps = {
+  value: string;
+  /** Bios are drafted from this text, so it is required and longer. */
+  isBio: boolean;
+  isReply: boolean;
+  error?: string;
+  onChange: (event: ChangeEvent<HTMLTextAreaElement>) => void;
+};
+
+/** Guidance for captions, alt text and replies, or the About text of a bio. */
+export default function GuidanceField({
+  value,
+  isBio,
+  isReply,
+  error,
+  onChange,
+}: GuidanceFieldProps) {
+  const maxLength = isBio ? maxBioGuidanceLength : maxCaptionGuidanceLength;
+  const trimmedLength = value.trim().length;
+  const bioIsInvalid =
+    isBio &&
+    value.length > 0 &&
+    (trimmedLength < minBioGuidanceLength ||
+      trimmedLength > maxBioGuidanceLength);
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="guidance" className="font-medium text-zinc-900">
+        {isReply
+          ? "Context for your replies"
+          : "Things to mention, or write a short about blurb"}
+        {isBio ? (
+          <span className="ml-2 text-xs font-semibold uppercase text-[#6c5ce7]">
+            Required
+          </span>
+        ) : (
+          <span className="ml-2 text-xs text-zinc-500">Optional</span>
+        )}
+      </label>
+      <textarea
+        id="guidance"
+        name="guidance"
+        rows={isReply ? 4 : 12}
+        placeholder={
+          isReply
+            ? "e.g., restock lands Friday; link to the shop is in our bio"
+            : "e.g., brand is eco-friendly; mention weekend market; upbeat vibe — or I am Sara, indie baker in Stockholm; rye sourdough; dog mom"
+        }
+        value={value}
+        onChange={onChange}
+        maxLength={maxLength}
+        className={
+          isReply
+            ? "w-full rounded-2xl border border-zinc-200 px-4 py-4 text-sm leading-relaxed text-zinc-700 shadow-sm outline-none ring-[#6c5ce7]/40 transition focus:border-[#6c5ce7] focus:ring-2"
+            : "h-full min-h-[280px] w-full rounded-2xl border border-zinc-200 px-4 py-4 text-sm leading-relaxed text-zinc-700 shadow-sm outline-none ring-[#6c5ce7]/40 transition focus:border-[#6c5ce7] focus:ring-2"
+        }
+        aria-describedby="guidance-help"
+      />
+      <div className="flex items-center justify-between text-xs text-zinc-500">
+        <p id="guidance-help">
+          Used as guidance for captions, alt text and replies, or as the source
+          text for bios.
+        </p>
+        <span>
+          {value.length}/{maxLength}
+        </span>
+      </div>
+      {bioIsInvalid && (
+        <p className="text-sm text-red-500" role="alert">
+          About text must be between {minBioGuidanceLength} and{" "}
+          {maxBioGuidanceLength} characters.
+        </p>
+      )}
+      {!isBio && value.length > maxCaptionGuidanceLength && (
+        <p className="text-sm text-red-500" role="alert">
+          Guidance must be {maxCaptionGuidanceLength} characters or fewer.
+        </p>
+      )}
+      {error && (
+        <p className="text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
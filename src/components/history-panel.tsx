@@ -0,0 +1,204 @@
+"use client";
+
+import { ChangeEvent, useEffect, useState } from "react";
+import type { Mode } from "@/lib/generation/types";
+import type { HistoryEntry, HistorySummary } from "@/lib/history";
+
+type HistoryPanelProps = {
+  refreshKey: number;
+  tones: Array<{ label: string; value: string }>;
+  onRestore: (entry: HistoryEntry) => void;
+};
+
+const searchDelayMs = 250;
+
+const modeLabels: Record<Mode, string> = {
+  captions: "Captions",
+  bio: "Bio",
+  "alt-text": "Alt text",
+  carousel: "Carousel",
+  reply: "Replies",
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export default function HistoryPanel({
+  refreshKey,
+  tones,
+  onRestore,
+}: HistoryPanelProps) {
+  const [query, setQuery] = useState("");
+  const [mode, setMode] = useState("");
+  const [tone, setTone] = useState("");
+  const [items, setItems] = useState<HistorySummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams();
+    if (query.trim()) params.set("q", query.trim());
+    if (mode) params.set("mode", mode);
+    if (tone) params.set("tone", tone);
+
+    const timer = setTimeout(() => {
+      fetch(`/api/history?${params.toString()}`, { signal: controller.signal })
+        .then((response) => {
+          if (!response.ok) throw new Error("Unable to load history.");
+          return response.json() as Promise<{ items: HistorySummary[] }>;
+        })
+        .then((payload) => {
+          setItems(payload.items);
+          setError(null);
+        })
+        .catch((fetchError: unknown) => {
+          if ((fetchError as Error).name === "AbortError") return;
+          setError("Unable to load history.");
+        });
+    }, searchDelayMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, mode, tone, refreshKey, reloadKey]);
+
+  async function handleRestore(id: string) {
+    try {
+      const response = await fetch(`/api/history/${id}`);
+      if (!response.ok) throw new Error("Unable to restore.");
+
+      const payload = (await response.json()) as { item: HistoryEntry };
+      onRestore(payload.item);
+    } catch {
+      setError("Unable to restore that run.");
+    }
+  }
+
+  async function handleDelete(id: string) {
+    try {
+      const response = await fetch(`/api/history/${id}`, { method: "DELETE" });
+      if (!response.ok && response.status !== 404) {
+        throw new Error("Unable to delete.");
+      }
+      setReloadKey((key) => key + 1);
+    } catch {
+      setError("Unable to delete that run.");
+    }
+  }
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-zinc-200 p-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900">History</h2>
+          <p className="text-sm text-zinc-500">
+            Past runs are saved automatically. Restore one to pick up where
+            you left off.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-[minmax(0,1fr)_auto_auto]">
+        <input
+          type="search"
+          placeholder="Search guidance, captions or hashtags"
+          value={query}
+          onChange={(event: ChangeEvent<HTMLInputElement>) =>
+            setQuery(event.target.value)
+          }
+          className="w-full rounded-xl border border-zinc-200 px-4 py-2 text-sm text-zinc-700 shadow-sm outline-none ring-[#6c5ce7]/40 transition focus:border-[#6c5ce7] focus:ring-2"
+          aria-label="Search history"
+        />
+        <select
+          value={mode}
+          onChange={(event) => setMode(event.target.value)}
+          className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-700"
+          aria-label="Filter by mode"
+        >
+          <option value="">All modes</option>
+          <option value="captions">Captions</option>
+          <option value="bio">Bio</option>
+          <option value="alt-text">Alt text</option>
+          <option value="carousel">Carousel</option>
+          <option value="reply">Replies</option>
+        </select>
+        <select
+          value={tone}
+          onChange={(event) => setTone(event.target.value)}
+          className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-700"
+          aria-label="Filter by tone"
+        >
+          <option value="">All tones</option>
+          {tones.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-zinc-500">No saved runs yet.</p>
+      ) : (
+        <ul className="divide-y divide-zinc-100">
+          {items.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex flex-wrap items-center justify-between gap-3 py-3"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="text-xs font-semibold uppercase tracking-wide text-[#6c5ce7]">
+                  {modeLabels[entry.mode]} ·{" "}
+                  {entry.mode !== "alt-text" && (
+                    <>
+                      {tones.find((option) => option.value === entry.tone)
+                        ?.label ?? entry.tone}{" "}
+                      ·{" "}
+                    </>
+                  )}
+                  {formatDate(entry.createdAt)}
+                </p>
+                <p className="truncate text-sm text-zinc-700">
+                  {entry.preview}
+                </p>
+                {entry.guidance && (
+                  <p className="truncate text-xs text-zinc-500">
+                    {entry.guidance}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => handleRestore(entry.id)}
+                  className="rounded-lg border border-[#6c5ce7] px-3 py-1.5 text-xs font-semibold text-[#6c5ce7] transition hover:bg-[#6c5ce7] hover:text-white"
+                >
+                  Restore
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(entry.id)}
+                  className="rounded-lg border border-zinc-200 px-3 py-1.5 text-xs font-semibold text-zinc-500 transition hover:border-red-300 hover:text-red-500"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import type { ChangeEvent, ReactNode } from "react";
+
+type ImageUploadFieldProps = {
+  accept: string;
+  /** Carousels and batches take several images. */
+  multiple: boolean;
+  required: boolean;
+  disabled: boolean;
+  maxImageBytes: number;
+  selectedName?: string;
+  /** Images picked for a batch. */
+  batchCount: number;
+  error?: string | null;
+  onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  /** Mode-specific controls shown under the picker, e.g. carousel slides. */
+  children?: ReactNode;
+};
+
+export default function ImageUploadField({
+  accept,
+  multiple,
+  required,
+  disabled,
+  maxImageBytes,
+  selectedName,
+  batchCount,
+  error,
+  onChange,
+  children,
+}: ImageUploadFieldProps) {
+  return (
+    <div className="space-y-2">
+      <label className="font-medium text-zinc-900">
+        {multiple ? "Upload images" : "Upload image"}
+        {required ? (
+          <span className="ml-2 text-xs font-semibold uppercase text-[#6c5ce7]">
+            Required
+          </span>
+        ) : (
+          <span className="ml-2 text-xs text-zinc-500">Optional</span>
+        )}
+      </label>
+      <input
+        type="file"
+        accept={accept}
+        multiple={multiple}
+        disabled={disabled}
+        onChange={onChange}
+        className="block w-full text-sm text-zinc-600 file:mr-4 file:cursor-pointer file:rounded-lg file:border-0 file:bg-[#6c5ce7] file:px-4 file:py-2 file:text-sm file:font-medium file:text-white file:transition file:hover:bg-[#5843d8]"
+      />
+      <p className="text-xs text-zinc-500">
+        JPG, PNG, WebP, HEIC or AVIF, up to{" "}
+        {Math.round(maxImageBytes / 1024 / 1024)}MB. Guidance helps craft
+        captions in at least two variants.
+      </p>
+      {selectedName && (
+        <p className="text-sm text-zinc-700">
+          Selected:{" "}
+          <span className="font-medium text-[#6c5ce7]">{selectedName}</span>
+        </p>
+      )}
+      {children}
+      {batchCount > 0 && (
+        <p className="text-sm text-zinc-700">
+          Selected:{" "}
+          <span className="font-medium text-[#6c5ce7]">
+            {batchCount} {batchCount === 1 ? "image" : "images"}
+          </span>
+        </p>
+      )}
+      {error && (
+        <p className="text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
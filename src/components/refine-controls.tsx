@@ -0,0 +1,206 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import type { RefinePreset } from "@/lib/generation/refine";
+
+type RefineItem = {
+  text: string;
+  hashtags?: string;
+  description?: string;
+  slides?: string[];
+};
+
+export type RefineOptions = {
+  preset?: RefinePreset;
+  instruction?: string;
+  count: number;
+};
+
+type RefineControlsProps<T extends RefineItem> = {
+  disabled?: boolean;
+  disabledReason?: string;
+  onRequest: (options: RefineOptions) => Promise<T[]>;
+  onApply: (item: T) => void;
+};
+
+const presetOptions: Array<{ label: string; value: RefinePreset }> = [
+  { label: "Shorter", value: "shorter" },
+  { label: "Punchier", value: "punchier" },
+  { label: "Add CTA", value: "add-cta" },
+  { label: "Less formal", value: "less-formal" },
+];
+
+const maxInstructionLength = 200;
+
+export default function RefineControls<T extends RefineItem>({
+  disabled = false,
+  disabledReason,
+  onRequest,
+  onApply,
+}: RefineControlsProps<T>) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [preset, setPreset] = useState<RefinePreset | "">("");
+  const [instruction, setInstruction] = useState("");
+  const [revisions, setRevisions] = useState<T[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(options: RefineOptions, applyFirst: boolean) {
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const items = await onRequest(options);
+      if (applyFirst && items[0]) {
+        onApply(items[0]);
+        setRevisions([]);
+        return;
+      }
+      setRevisions(items);
+    } catch (requestError) {
+      setError(
+        requestError instanceof Error
+          ? requestError.message
+          : "Something went wrong",
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  function handleRefine(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!preset && !instruction.trim()) return;
+
+    void run(
+      {
+        preset: preset || undefined,
+        instruction: instruction.trim() || undefined,
+        count: 3,
+      },
+      false,
+    );
+  }
+
+  function applyRevision(item: T) {
+    onApply(item);
+    setRevisions([]);
+    setIsOpen(false);
+  }
+
+  const buttonClass =
+    "rounded-lg border border-zinc-300 px-4 py-2 text-xs font-semibold text-zinc-600 transition hover:border-[#6c5ce7] hover:text-[#6c5ce7] disabled:cursor-not-allowed disabled:opacity-60";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          disabled={disabled || isWorking}
+          onClick={() => setIsOpen((open) => !open)}
+          className={buttonClass}
+          title={disabled ? disabledReason : undefined}
+        >
+          Refine
+        </button>
+        <button
+          type="button"
+          disabled={disabled || isWorking}
+          onClick={() => run({ preset: "regenerate", count: 1 }, true)}
+          className={buttonClass}
+          title={disabled ? disabledReason : undefined}
+        >
+          {isWorking && !isOpen ? "Regenerating…" : "Regenerate this one"}
+        </button>
+      </div>
+
+      {isOpen && (
+        <form
+          onSubmit={handleRefine}
+          className="space-y-3 rounded-xl border border-zinc-200 bg-white p-4"
+        >
+          <div className="flex flex-wrap gap-2">
+            {presetOptions.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() =>
+                  setPreset((current) =>
+                    current === option.value ? "" : option.value,
+                  )
+                }
+                className={
+                  preset === option.value
+                    ? "rounded-full border border-[#6c5ce7] bg-[#f7f5ff] px-3 py-1 text-xs font-medium text-[#4334c9]"
+                    : "rounded-full border border-zinc-200 px-3 py-1 text-xs font-medium text-zinc-600 hover:border-[#6c5ce7]"
+                }
+                aria-pressed={preset === option.value}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={instruction}
+            maxLength={maxInstructionLength}
+            onChange={(event) => setInstruction(event.target.value)}
+            placeholder="Or describe the change, e.g. mention the Saturday market"
+            className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm text-zinc-700 outline-none ring-[#6c5ce7]/40 focus:border-[#6c5ce7] focus:ring-2"
+            aria-label="Refinement instruction"
+          />
+          <button
+            type="submit"
+            disabled={isWorking || (!preset && !instruction.trim())}
+            className="rounded-lg bg-[#6c5ce7] px-4 py-2 text-xs font-semibold text-white transition hover:bg-[#5843d8] disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isWorking ? "Refining…" : "Show revisions"}
+          </button>
+
+          {revisions.length > 0 && (
+            <ul className="space-y-2">
+              {revisions.map((revision, index) => (
+                <li
+                  key={`${revision.text}-${index}`}
+                  className="flex items-start justify-between gap-3 rounded-lg border border-zinc-100 bg-[#fbfbff] p-3"
+                >
+                  <div className="space-y-1">
+                    <p className="text-sm text-zinc-800">{revision.text}</p>
+                    {revision.hashtags && (
+                      <p className="text-xs text-zinc-500">
+                        {revision.hashtags}
+                      </p>
+                    )}
+                    {revision.description && (
+                      <p className="text-xs text-zinc-500">
+                        {revision.description}
+                      </p>
+                    )}
+                    {revision.slides?.map((line, slide) => (
+                      <p key={slide} className="text-xs text-zinc-500">
+                        {slide + 1}. {line}
+                      </p>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => applyRevision(revision)}
+                    className="shrink-0 text-xs font-semibold text-[#6c5ce7] hover:underline"
+                  >
+                    Use this
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </form>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
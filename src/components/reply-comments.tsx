@@ -0,0 +1,86 @@
+"use client";
+
+type ReplyCommentsProps = {
+  comments: string[];
+  maxComments: number;
+  maxLength: number;
+  disabled: boolean;
+  onChange: (comments: string[]) => void;
+};
+
+/**
+ * The comments to answer, one field each and in the order they are sent.
+ * At least one field is always shown; blank ones are skipped on submit.
+ */
+export default function ReplyComments({
+  comments,
+  maxComments,
+  maxLength,
+  disabled,
+  onChange,
+}: ReplyCommentsProps) {
+  function update(index: number, value: string) {
+    onChange(
+      comments.map((comment, other) => (other === index ? value : comment)),
+    );
+  }
+
+  function remove(index: number) {
+    const next = comments.filter((_, other) => other !== index);
+    onChange(next.length > 0 ? next : [""]);
+  }
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-3">
+        {comments.map((comment, index) => (
+          <li key={index} className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-zinc-500">
+              <label htmlFor={`comment-${index}`} className="font-medium">
+                Comment {index + 1}
+              </label>
+              <span className="flex items-center gap-3">
+                <span>
+                  {comment.length}/{maxLength}
+                </span>
+                {comments.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => remove(index)}
+                    disabled={disabled}
+                    className="text-zinc-500 hover:text-red-500 disabled:opacity-30"
+                    aria-label={`Remove comment ${index + 1}`}
+                  >
+                    ✕
+                  </button>
+                )}
+              </span>
+            </div>
+            <textarea
+              id={`comment-${index}`}
+              rows={2}
+              value={comment}
+              maxLength={maxLength}
+              disabled={disabled}
+              onChange={(event) => update(index, event.target.value)}
+              placeholder="Paste a comment from your post"
+              className="w-full rounded-xl border border-zinc-200 px-4 py-3 text-sm text-zinc-700 shadow-sm outline-none ring-[#6c5ce7]/40 transition focus:border-[#6c5ce7] focus:ring-2"
+            />
+          </li>
+        ))}
+      </ol>
+      <button
+        type="button"
+        onClick={() => onChange([...comments, ""])}
+        disabled={disabled || comments.length >= maxComments}
+        className="rounded-lg border border-[#6c5ce7] px-4 py-2 text-xs font-semibold text-[#6c5ce7] transition hover:bg-[#6c5ce7] hover:text-white disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Add comment
+      </button>
+      <p className="text-xs text-zinc-500">
+        Up to {maxComments} comments per run. Complaints and sensitive topics
+        are flagged for a person instead of getting drafted replies.
+      </p>
+    </div>
+  );
+}
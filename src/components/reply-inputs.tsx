@@ -0,0 +1,81 @@
+"use client";
+
+import ReplyComments from "@/components/reply-comments";
+import {
+  maxReplyCommentLength,
+  maxReplyPostLength,
+} from "@/lib/generation/input-limits";
+
+type ReplyInputsProps = {
+  post: string;
+  comments: string[];
+  maxComments: number;
+  disabled: boolean;
+  postError?: string;
+  commentsError?: string;
+  onPostChange: (post: string) => void;
+  onCommentsChange: (comments: string[]) => void;
+};
+
+/** The post caption and the comments a reply run answers. */
+export default function ReplyInputs({
+  post,
+  comments,
+  maxComments,
+  disabled,
+  postError,
+  commentsError,
+  onPostChange,
+  onCommentsChange,
+}: ReplyInputsProps) {
+  return (
+    <>
+      <div className="space-y-2">
+        <label htmlFor="post" className="font-medium text-zinc-900">
+          Post caption
+          <span className="ml-2 text-xs font-semibold uppercase text-[#6c5ce7]">
+            Required
+          </span>
+        </label>
+        <textarea
+          id="post"
+          rows={4}
+          placeholder="The caption the comments were left under"
+          value={post}
+          onChange={(event) => onPostChange(event.target.value)}
+          maxLength={maxReplyPostLength}
+          className="w-full rounded-2xl border border-zinc-200 px-4 py-3 text-sm leading-relaxed text-zinc-700 shadow-sm outline-none ring-[#6c5ce7]/40 transition focus:border-[#6c5ce7] focus:ring-2"
+        />
+        <p className="text-xs text-zinc-500">
+          The post image is optional; upload it for replies that can refer to
+          what is shown.
+        </p>
+        {postError && (
+          <p className="text-sm text-red-500" role="alert">
+            {postError}
+          </p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <span className="font-medium text-zinc-900">
+          Comments
+          <span className="ml-2 text-xs font-semibold uppercase text-[#6c5ce7]">
+            Required
+          </span>
+        </span>
+        <ReplyComments
+          comments={comments}
+          maxComments={maxComments}
+          maxLength={maxReplyCommentLength}
+          disabled={disabled}
+          onChange={onCommentsChange}
+        />
+        {commentsError && (
+          <p className="text-sm text-red-500" role="alert">
+            {commentsError}
+          </p>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import type { ChangeEvent } from "react";
+
+export type ToneOption = { label: string; value: string; description?: string };
+
+type TonePickerProps = {
+  label: string;
+  /** Shown next to the label; `required` styles it as a requirement. */
+  badge: { text: string; required: boolean };
+  tones: ToneOption[];
+  /** Checkboxes for a comparison, radio buttons otherwise. */
+  multiple: boolean;
+  selected: string[];
+  maxSelected: number;
+  error?: string;
+  onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+};
+
+/** The card style shared by the form's radio and checkbox options. */
+export function optionCardClasses(checked: boolean) {
+  return checked
+    ? "flex cursor-pointer items-center justify-between rounded-xl border border-[#6c5ce7] bg-[#f7f5ff] px-4 py-3 text-sm text-[#4334c9] transition"
+    : "flex cursor-pointer items-center justify-between rounded-xl border border-zinc-200 px-4 py-3 text-sm text-zinc-600 transition hover:border-[#6c5ce7]";
+}
+
+export default function TonePicker({
+  label,
+  badge,
+  tones,
+  multiple,
+  selected,
+  maxSelected,
+  error,
+  onChange,
+}: TonePickerProps) {
+  return (
+    <div className="space-y-2">
+      <span className="font-medium text-zinc-900">
+        {label}
+        <span
+          className={
+            badge.required
+              ? "ml-2 text-xs font-semibold uppercase text-[#6c5ce7]"
+              : "ml-2 text-xs text-zinc-500"
+          }
+        >
+          {badge.text}
+        </span>
+      </span>
+      <div className="grid grid-cols-2 gap-3">
+        {tones.map((option) => {
+          const checked = selected.includes(option.value);
+          return (
+            <label
+              key={option.value}
+              title={option.description}
+              className={optionCardClasses(checked)}
+            >
+              <span className="font-medium">{option.label}</span>
+              <input
+                type={multiple ? "checkbox" : "radio"}
+                name={multiple ? "tones" : "tone"}
+                value={option.value}
+                checked={checked}
+                disabled={
+                  multiple && !checked && selected.length >= maxSelected
+                }
+                onChange={onChange}
+                className="h-4 w-4 accent-[#6c5ce7]"
+                aria-label={option.label}
+              />
+            </label>
+          );
+        })}
+      </div>
+      {error && (
+        <p className="text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from "react";
+import ExportMenu from "@/components/export-menu";
+import { resultToExportSet } from "@/lib/export";
+import type { TranslatedSet } from "@/lib/generation/translate";
+import { getLanguage, languages, type LanguageId } from "@/lib/languages";
+
+type TranslationPanelProps = {
+  sourceLanguage: LanguageId;
+  translations: TranslatedSet[];
+  disabled?: boolean;
+  copiedKey: string | null;
+  onCopy: (text: string, key: string) => void;
+  onTranslate: (targets: LanguageId[]) => Promise<void>;
+};
+
+export default function TranslationPanel({
+  sourceLanguage,
+  translations,
+  disabled = false,
+  copiedKey,
+  onCopy,
+  onTranslate,
+}: TranslationPanelProps) {
+  const [targets, setTargets] = useState<LanguageId[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const options = languages.filter((language) => language.id !== sourceLanguage);
+  const selected = targets.filter((target) => target !== sourceLanguage);
+
+  function toggleTarget(id: LanguageId) {
+    setTargets((current) =>
+      current.includes(id)
+        ? current.filter((target) => target !== id)
+        : [...current, id],
+    );
+  }
+
+  async function handleTranslate() {
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      await onTranslate(selected);
+    } catch (requestError) {
+      setError(
+        requestError instanceof Error
+          ? requestError.message
+          : "Something went wrong",
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-zinc-200 p-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h3 className="text-base font-semibold text-zinc-900">
+            Translate this set
+          </h3>
+          <p className="text-sm text-zinc-500">
+            Keeps the tone and length limits; hashtags are swapped for local
+            ones.
+          </p>
+        </div>
+        {translations.length > 0 && (
+          <ExportMenu
+            sets={translations.map(({ language, result }) =>
+              resultToExportSet(result, getLanguage(language).name),
+            )}
+            fileNamePrefix="translations"
+            disabled={disabled || isWorking}
+          />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {options.map((language) => (
+          <label
+            key={language.id}
+            className="flex cursor-pointer items-center gap-2 rounded-full border border-zinc-200 px-3 py-1.5 text-xs font-medium text-zinc-700"
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(language.id)}
+              onChange={() => toggleTarget(language.id)}
+              className="h-3.5 w-3.5 accent-[#6c5ce7]"
+            />
+            {language.nativeName}
+          </label>
+        ))}
+        <button
+          type="button"
+          disabled={disabled || isWorking || selected.length === 0}
+          onClick={handleTranslate}
+          className="rounded-lg bg-[#6c5ce7] px-4 py-2 text-xs font-semibold text-white transition hover:bg-[#5843d8] disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isWorking ? "Translating…" : "Translate"}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+
+      {translations.map(({ language, result }) => (
+        <div key={language} className="space-y-3">
+          <p className="text-xs font-semibold uppercase tracking-wide text-[#6c5ce7]">
+            {getLanguage(language).nativeName}
+          </p>
+          <ul className="space-y-2">
+            {result.items.map((item, index) => {
+              const hashtags = "hashtags" in item ? item.hashtags : "";
+              const description =
+                "description" in item ? item.description : "";
+              const slides = "slides" in item ? item.slides : [];
+              const copyKey = `translation-${language}-${index}`;
+              return (
+                <li
+                  key={copyKey}
+                  className="flex items-start justify-between gap-3 rounded-lg border border-zinc-100 bg-[#fbfbff] p-3"
+                >
+                  <div className="space-y-1">
+                    <p className="text-sm text-zinc-800">{item.text}</p>
+                    {hashtags && (
+                      <p className="text-xs text-zinc-500">{hashtags}</p>
+                    )}
+                    {description && (
+                      <p className="text-xs text-zinc-500">{description}</p>
+                    )}
+                    {slides.map((line, slide) => (
+                      <p key={slide} className="text-xs text-zinc-500">
+                        {slide + 1}. {line}
+                      </p>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onCopy(
+                        hashtags ? `${item.text}\n\n${hashtags}` : item.text,
+                        copyKey,
+                      )
+                    }
+                    className="shrink-0 text-xs font-semibold text-[#6c5ce7] hover:underline"
+                  >
+                    {copiedKey === copyKey ? "Copied!" : "Copy"}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </section>
+  );
+}
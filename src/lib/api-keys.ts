@@ -0,0 +1,64 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+import { createJsonCollection, type StoredRecord } from "@/lib/json-store";
+
+/**
+ * Only a hash of each key is stored; `prefix` is the key's first characters,
+ * kept so people can tell their keys apart. Keys are created and revoked with
+ * `npm run api-keys`.
+ */
+export type ApiKeyRecord = StoredRecord & {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  revokedAt?: string;
+};
+
+export const apiKeyStore = createJsonCollection<ApiKeyRecord>("api-keys.json");
+
+export function hashApiKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/** The key sent as `X-API-Key` or `Authorization: Bearer`, if any. */
+export function readApiKey(request: Request) {
+  const bearer = request.headers
+    .get("authorization")
+    ?.match(/^Bearer\s+(.+)$/i);
+  const key = request.headers.get("x-api-key") ?? bearer?.[1];
+  return key?.trim() || null;
+}
+
+/** Resolves the request's API key to an active key record, or null. */
+export async function authenticateApiKey(request: Request) {
+  const key = readApiKey(request);
+  if (!key) {
+    return null;
+  }
+
+  const digest = Buffer.from(hashApiKey(key), "hex");
+  const records = await apiKeyStore.list();
+
+  return (
+    records.find(
+      (record) =>
+        !record.revokedAt &&
+        timingSafeEqual(Buffer.from(record.keyHash, "hex"), digest),
+    ) ?? null
+  );
+}
+
+/**
+ * Guards the routes that change shared records (brand voices, custom tones):
+ * a 401 response unless the request carries an active API key, else null.
+ */
+export async function requireApiKey(request: Request) {
+  if (await authenticateApiKey(request)) {
+    return null;
+  }
+
+  return NextResponse.json(
+    { error: "Send a valid API key as X-API-Key or a Bearer token." },
+    { status: 401 },
+  );
+}
@@ -0,0 +1,442 @@
+import { randomUUID } from "node:crypto";
+import { lookup as lookupCallback } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { isIP, type LookupFunction } from "node:net";
+import { NextResponse } from "next/server";
+import { Agent, fetch as fetchPinned, type Response } from "undici";
+import { carouselMaxSlides, replyMaxComments } from "@/lib/generation/input";
+import { imageMaxUploadBytes } from "@/lib/image-preprocess";
+import type { RateLimitDecision } from "@/lib/rate-limit";
+
+export const apiErrorCodes = [
+  "unauthorized",
+  "invalid_request",
+  "invalid_image",
+  "flagged_input",
+  "rate_limited",
+  "not_configured",
+  "model_busy",
+  "invalid_output",
+  "timeout",
+  "cancelled",
+  "provider_credentials",
+  "internal_error",
+] as const;
+
+export type ApiErrorCode = (typeof apiErrorCodes)[number];
+
+export type ApiError = {
+  code: ApiErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+};
+
+type EnvelopeInit = { status?: number; headers?: Record<string, string> };
+
+const imageFetchTimeoutMs = 10_000;
+const maxImageRedirects = 3;
+
+const stringFields = [
+  "mode",
+  "tone",
+  "guidance",
+  "post",
+  "platform",
+  "language",
+  "brandVoiceId",
+] as const;
+
+const numberFields = ["maxChars", "variants"] as const;
+
+export function createRequestId() {
+  return randomUUID();
+}
+
+/** `{ data, meta }` on success; every v1 response carries `X-Request-Id`. */
+export function apiData<T>(
+  requestId: string,
+  data: T,
+  { status = 200, headers }: EnvelopeInit = {},
+) {
+  return NextResponse.json(
+    { data, meta: { requestId } },
+    { status, headers: { ...headers, "X-Request-Id": requestId } },
+  );
+}
+
+/** `{ error: { code, message, details? }, meta }` on failure. */
+export function apiError(
+  requestId: string,
+  status: number,
+  error: ApiError,
+  headers?: Record<string, string>,
+) {
+  return NextResponse.json(
+    { error, meta: { requestId } },
+    { status, headers: { ...headers, "X-Request-Id": requestId } },
+  );
+}
+
+export function apiRateLimited(requestId: string, decision: RateLimitDecision) {
+  return apiError(
+    requestId,
+    429,
+    {
+      code: "rate_limited",
+      message:
+        decision.reason === "daily"
+          ? "Daily limit reached."
+          : "Too many requests.",
+      details: {
+        reason: decision.reason,
+        retryAfter: decision.retryAfterSeconds,
+      },
+    },
+    {
+      "Retry-After": String(decision.retryAfterSeconds),
+      "X-RateLimit-Remaining": String(decision.remaining),
+    },
+  );
+}
+
+/** Maps a `resolveGenerationError` reason to its v1 error code. */
+export const errorCodeByReason: Record<string, ApiErrorCode> = {
+  timeout: "timeout",
+  cancelled: "cancelled",
+  not_configured: "not_configured",
+  invalid_json: "invalid_output",
+  rate_limited: "model_busy",
+  credentials: "provider_credentials",
+  error: "internal_error",
+};
+
+type BodyResult =
+  | { ok: true; formData: FormData }
+  | { ok: false; error: ApiError };
+
+function invalid(code: ApiErrorCode, message: string): BodyResult {
+  return { ok: false, error: { code, message } };
+}
+
+function allowedImageHosts() {
+  return (process.env.API_IMAGE_URL_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+async function readLimited(response: Response, maxBytes: number) {
+  if (!response.body) return null;
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+function parseIpv4(address: string) {
+  return address.split(".").map((part) => Number(part));
+}
+
+/**
+ * False for loopback, private, link-local (cloud metadata included),
+ * carrier-grade NAT, unspecified, multicast and reserved addresses.
+ */
+function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+
+  if (version === 4) {
+    const [a, b] = parseIpv4(address);
+    return !(
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+
+  if (version === 6) {
+    const lower = address.toLowerCase();
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPublicAddress(mapped[1]);
+
+    // URLs normalize mapped IPv4 to hex, e.g. ::ffff:7f00:1.
+    const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [high, low] = mappedHex.slice(1).map((part) => parseInt(part, 16));
+      return isPublicAddress(
+        `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`,
+      );
+    }
+
+    return !(
+      lower.startsWith("::") ||
+      lower.startsWith("fc") ||
+      lower.startsWith("fd") ||
+      /^fe[89ab]/.test(lower) ||
+      lower.startsWith("ff")
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Resolves the host again when connecting and refuses non-public answers,
+ * so a host that passed `checkImageUrl` cannot rebind to an internal
+ * address before the request goes out.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(
+    hostname,
+    { ...options, all: true, verbatim: true },
+    (error, addresses) => {
+      if (error) return callback(error, "", 0);
+
+      if (
+        addresses.length === 0 ||
+        !addresses.every((entry) => isPublicAddress(entry.address))
+      ) {
+        return callback(
+          new Error(`${hostname} resolves to a non-public address`),
+          "",
+          0,
+        );
+      }
+
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    },
+  );
+};
+
+const imageAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/** Why `url` may not be fetched, or null when it may. */
+async function checkImageUrl(url: URL): Promise<string | null> {
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "image.url must use http or https.";
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+  const allowed = allowedImageHosts();
+  if (allowed.length > 0 && !allowed.includes(host)) {
+    return "image.url host is not allowed.";
+  }
+
+  if (allowed.length === 0 && process.env.NODE_ENV === "production") {
+    return "image.url is disabled until API_IMAGE_URL_ALLOWED_HOSTS is set.";
+  }
+
+  try {
+    const addresses = isIP(host)
+      ? [{ address: host }]
+      : await lookup(host, { all: true, verbatim: true });
+    if (
+      addresses.length === 0 ||
+      !addresses.every((entry) => isPublicAddress(entry.address))
+    ) {
+      return "image.url must point to a public address.";
+    }
+  } catch {
+    return "image.url host could not be resolved.";
+  }
+
+  return null;
+}
+
+/**
+ * Downloads an image for a v1 request. Only http(s) URLs on public addresses
+ * are followed, and when `API_IMAGE_URL_ALLOWED_HOSTS` is set only those
+ * hosts; in production the list is required. Redirects are followed by hand
+ * so every hop passes the same checks.
+ */
+async function fetchImage(raw: string): Promise<Buffer | string> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return "image.url is not a valid URL.";
+  }
+
+  const signal = AbortSignal.timeout(imageFetchTimeoutMs);
+
+  try {
+    for (let hop = 0; hop <= maxImageRedirects; hop += 1) {
+      const problem = await checkImageUrl(url);
+      if (problem) return problem;
+
+      const response = await fetchPinned(url, {
+        signal,
+        redirect: "manual",
+        dispatcher: imageAgent,
+      });
+      const location = response.headers.get("location");
+
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        url = new URL(location, url);
+        continue;
+      }
+
+      if (!response.ok) {
+        return `image.url responded ${response.status}.`;
+      }
+
+      const bytes = await readLimited(response, imageMaxUploadBytes());
+      return bytes ?? "image.url is too large.";
+    }
+
+    return "image.url redirected too many times.";
+  } catch {
+    return "image.url could not be fetched.";
+  }
+}
+
+function decodeBase64(raw: string) {
+  const payload = raw.replace(/^data:[^;,]+;base64,/, "").replace(/\s+/g, "");
+  if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(payload)) {
+    return null;
+  }
+
+  return Buffer.from(payload, "base64");
+}
+
+async function readImageField(value: unknown): Promise<Buffer | string> {
+  const image = value as { base64?: unknown; url?: unknown } | null;
+
+  if (typeof image?.base64 === "string") {
+    const bytes = decodeBase64(image.base64);
+    if (!bytes || bytes.length === 0) {
+      return "image.base64 is not valid base64.";
+    }
+    return bytes;
+  }
+
+  if (typeof image?.url === "string") {
+    return fetchImage(image.url);
+  }
+
+  return "Send the image as image.base64 or image.url.";
+}
+
+/**
+ * Turns a v1 JSON body into the multipart fields the generation readers
+ * already validate, so both surfaces share one set of rules.
+ */
+export async function readV1CaptionsBody(body: unknown): Promise<BodyResult> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return invalid("invalid_request", "Request body must be a JSON object.");
+  }
+
+  const fields = body as Record<string, unknown>;
+  const formData = new FormData();
+
+  for (const name of stringFields) {
+    const value = fields[name];
+    if (value === undefined || value === null) continue;
+
+    if (typeof value !== "string") {
+      return invalid("invalid_request", `${name} must be a string.`);
+    }
+    formData.append(name, value);
+  }
+
+  for (const name of numberFields) {
+    const value = fields[name];
+    if (value === undefined || value === null) continue;
+
+    if (typeof value !== "number") {
+      return invalid("invalid_request", `${name} must be a number.`);
+    }
+    formData.append(name, String(value));
+  }
+
+  if (fields.bypassCache === true) {
+    formData.append("bypassCache", "true");
+  }
+
+  if (fields.slideLines === false) {
+    formData.append("slideLines", "false");
+  }
+
+  if (fields.mode === "carousel") {
+    const images = fields.images;
+    // Checked before any download; the count itself is validated later.
+    if (!Array.isArray(images) || images.length > carouselMaxSlides()) {
+      return invalid(
+        "invalid_request",
+        `images must be an array of at most ${carouselMaxSlides()} images.`,
+      );
+    }
+
+    for (const [index, entry] of images.entries()) {
+      const image = await readImageField(entry);
+      if (typeof image === "string") {
+        return invalid("invalid_image", `images[${index}]: ${image}`);
+      }
+
+      formData.append(
+        "images",
+        new File([new Uint8Array(image)], `slide-${index + 1}`),
+      );
+    }
+  }
+
+  if (fields.mode === "reply") {
+    const comments = fields.comments;
+    if (
+      !Array.isArray(comments) ||
+      comments.length > replyMaxComments() ||
+      !comments.every((comment) => typeof comment === "string")
+    ) {
+      return invalid(
+        "invalid_request",
+        `comments must be an array of at most ${replyMaxComments()} strings.`,
+      );
+    }
+
+    for (const comment of comments) {
+      formData.append("comments", comment);
+    }
+
+    // The post image is optional for replies.
+    if (fields.image !== undefined && fields.image !== null) {
+      const image = await readImageField(fields.image);
+      if (typeof image === "string") {
+        return invalid("invalid_image", image);
+      }
+
+      formData.append("image", new File([new Uint8Array(image)], "image"));
+    }
+  }
+
+  if (fields.mode === "captions" || fields.mode === "alt-text") {
+    const image = await readImageField(fields.image);
+    if (typeof image === "string") {
+      return invalid("invalid_image", image);
+    }
+
+    formData.append("image", new File([new Uint8Array(image)], "image"));
+  }
+
+  return { ok: true, formData };
+}
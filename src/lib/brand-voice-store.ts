@@ -0,0 +1,6 @@
+import type { BrandVoice } from "@/lib/brand-voices";
+import { createJsonCollection } from "@/lib/json-store";
+
+export const brandVoiceStore = createJsonCollection<BrandVoice>(
+  "brand-voices.json",
+);
@@ -0,0 +1,132 @@
+export type EmojiPolicy = "none" | "sparing" | "expressive";
+
+export type BrandVoiceFields = {
+  name: string;
+  description: string;
+  requiredPhrases: string[];
+  bannedWords: string[];
+  emojiPolicy: EmojiPolicy;
+  samplePosts: string[];
+};
+
+export type BrandVoice = BrandVoiceFields & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const emojiPolicies: EmojiPolicy[] = ["none", "sparing", "expressive"];
+
+export const brandVoiceLimits = {
+  name: 60,
+  description: 600,
+  requiredPhrases: { count: 10, length: 80 },
+  bannedWords: { count: 50, length: 40 },
+  samplePosts: { count: 5, length: 500 },
+};
+
+export type FieldsResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+/** Trimmed, non-empty strings within `limit`; shared with custom tones. */
+export function readList(
+  value: unknown,
+  field: string,
+  limit: { count: number; length: number },
+): FieldsResult<string[]> {
+  if (!Array.isArray(value)) {
+    return { ok: false, error: `${field} must be a list of strings` };
+  }
+
+  const items = value
+    .filter((entry): entry is string => typeof entry === "string")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (items.length !== value.length) {
+    return { ok: false, error: `${field} must be a list of strings` };
+  }
+
+  if (items.length > limit.count) {
+    return { ok: false, error: `${field} allows at most ${limit.count} entries` };
+  }
+
+  if (items.some((entry) => entry.length > limit.length)) {
+    return {
+      ok: false,
+      error: `${field} entries must be ${limit.length} characters or fewer`,
+    };
+  }
+
+  return { ok: true, value: items };
+}
+
+/**
+ * Validates a create (`partial = false`) or update (`partial = true`) body.
+ * Updates only check the fields they carry.
+ */
+export function readBrandVoiceFields(
+  body: unknown,
+  partial: true,
+): FieldsResult<Partial<BrandVoiceFields>>;
+export function readBrandVoiceFields(
+  body: unknown,
+  partial?: false,
+): FieldsResult<BrandVoiceFields>;
+export function readBrandVoiceFields(
+  body: unknown,
+  partial = false,
+): FieldsResult<Partial<BrandVoiceFields>> {
+  if (!body || typeof body !== "object") {
+    return { ok: false, error: "Body must be a JSON object" };
+  }
+
+  const raw = body as Record<string, unknown>;
+  const value: Partial<BrandVoiceFields> = {};
+  const has = (key: keyof BrandVoiceFields) => !partial || key in raw;
+
+  if (has("name")) {
+    const name = typeof raw.name === "string" ? raw.name.trim() : "";
+    if (!name || name.length > brandVoiceLimits.name) {
+      return {
+        ok: false,
+        error: `name is required and must be ${brandVoiceLimits.name} characters or fewer`,
+      };
+    }
+    value.name = name;
+  }
+
+  if (has("description")) {
+    const description =
+      typeof raw.description === "string" ? raw.description.trim() : "";
+    if (!description || description.length > brandVoiceLimits.description) {
+      return {
+        ok: false,
+        error: `description is required and must be ${brandVoiceLimits.description} characters or fewer`,
+      };
+    }
+    value.description = description;
+  }
+
+  for (const key of ["requiredPhrases", "bannedWords", "samplePosts"] as const) {
+    if (!has(key)) continue;
+
+    const list = readList(raw[key] ?? [], key, brandVoiceLimits[key]);
+    if (!list.ok) return list;
+    value[key] = list.value;
+  }
+
+  if (has("emojiPolicy")) {
+    const emojiPolicy = raw.emojiPolicy ?? "sparing";
+    if (!emojiPolicies.includes(emojiPolicy as EmojiPolicy)) {
+      return {
+        ok: false,
+        error: `emojiPolicy must be one of ${emojiPolicies.join(", ")}`,
+      };
+    }
+    value.emojiPolicy = emojiPolicy as EmojiPolicy;
+  }
+
+  return { ok: true, value };
+}
@@ -0,0 +1,33 @@
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight, resolving
+ * once every item has settled. Results keep the input order; a rejected call
+ * is reported as `{ ok: false }` instead of aborting the rest.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+) {
+  const results: Array<
+    { ok: true; value: R } | { ok: false; error: unknown }
+  > = new Array(items.length);
+  let next = 0;
+
+  async function runLane() {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+
+      try {
+        results[index] = { ok: true, value: await worker(items[index], index) };
+      } catch (error) {
+        results[index] = { ok: false, error };
+      }
+    }
+  }
+
+  const lanes = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: lanes }, runLane));
+
+  return results;
+}
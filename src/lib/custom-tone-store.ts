@@ -0,0 +1,6 @@
+import type { CustomTone } from "@/lib/custom-tones";
+import { createJsonCollection } from "@/lib/json-store";
+
+export const customToneStore = createJsonCollection<CustomTone>(
+  "custom-tones.json",
+);
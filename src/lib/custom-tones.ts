@@ -0,0 +1,72 @@
+import { readList, type FieldsResult } from "@/lib/brand-voices";
+
+export type CustomToneFields = {
+  label: string;
+  description: string;
+  dos: string[];
+  donts: string[];
+  examples: string[];
+};
+
+/** A team-defined tone; its `id` is sent as `tone` like a built-in one. */
+export type CustomTone = CustomToneFields & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const customToneLimits = {
+  label: 40,
+  description: 400,
+  dos: { count: 8, length: 120 },
+  donts: { count: 8, length: 120 },
+  examples: { count: 5, length: 280 },
+};
+
+/**
+ * Validates a create (`partial = false`) or update (`partial = true`) body.
+ * Updates only check the fields they carry.
+ */
+export function readCustomToneFields(
+  body: unknown,
+  partial: true,
+): FieldsResult<Partial<CustomToneFields>>;
+export function readCustomToneFields(
+  body: unknown,
+  partial?: false,
+): FieldsResult<CustomToneFields>;
+export function readCustomToneFields(
+  body: unknown,
+  partial = false,
+): FieldsResult<Partial<CustomToneFields>> {
+  if (!body || typeof body !== "object") {
+    return { ok: false, error: "Body must be a JSON object" };
+  }
+
+  const raw = body as Record<string, unknown>;
+  const value: Partial<CustomToneFields> = {};
+  const has = (key: keyof CustomToneFields) => !partial || key in raw;
+
+  for (const key of ["label", "description"] as const) {
+    if (!has(key)) continue;
+
+    const text = typeof raw[key] === "string" ? raw[key].trim() : "";
+    if (!text || text.length > customToneLimits[key]) {
+      return {
+        ok: false,
+        error: `${key} is required and must be ${customToneLimits[key]} characters or fewer`,
+      };
+    }
+    value[key] = text;
+  }
+
+  for (const key of ["dos", "donts", "examples"] as const) {
+    if (!has(key)) continue;
+
+    const list = readList(raw[key] ?? [], key, customToneLimits[key]);
+    if (!list.ok) return list;
+    value[key] = list.value;
+  }
+
+  return { ok: true, value };
+}
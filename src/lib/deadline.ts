@@ -0,0 +1,57 @@
+import { readPositiveInt } from "@/lib/env";
+
+const defaultDeadlineSeconds = 60;
+
+export type AbortReason = "timeout" | "cancelled";
+
+/** Time budget for one generation request (`GENERATION_DEADLINE_SECONDS`). */
+export function generationDeadlineMs() {
+  return (
+    readPositiveInt(
+      process.env.GENERATION_DEADLINE_SECONDS,
+      defaultDeadlineSeconds,
+    ) * 1000
+  );
+}
+
+/**
+ * The signal a route hands to the pipeline. It aborts when the client goes
+ * away (`request.signal`) or when the deadline passes, whichever is first.
+ */
+export function createRequestSignal(
+  request: Request,
+  deadlineMs = generationDeadlineMs(),
+) {
+  return AbortSignal.any([request.signal, AbortSignal.timeout(deadlineMs)]);
+}
+
+/** Why `signal` was aborted, or null while it is still live. */
+export function abortReason(signal?: AbortSignal): AbortReason | null {
+  if (!signal?.aborted) {
+    return null;
+  }
+
+  const reason = signal.reason as { name?: string } | undefined;
+  return reason?.name === "TimeoutError" ? "timeout" : "cancelled";
+}
+
+/** Waits `durationMs`, rejecting with the abort reason as soon as `signal` fires. */
+export function sleep(durationMs: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, durationMs);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,11 @@
+/** A positive whole number from an env value, else `fallback`. */
+export function readPositiveInt(raw: string | undefined, fallback: number) {
+  const value = Number.parseInt(raw ?? "", 10);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/** Like `readPositiveInt`, but `0` is allowed, e.g. to switch a cap off. */
+export function readNonNegativeInt(raw: string | undefined, fallback: number) {
+  const value = Number.parseInt(raw ?? "", 10);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
@@ -0,0 +1,399 @@
+import type { BatchImageResult } from "@/lib/generation/batch";
+import type { CompareToneResult } from "@/lib/generation/compare";
+import type {
+  GenerationResult,
+  ReplyComment,
+  ResultItem,
+} from "@/lib/generation/types";
+
+export type ExportFormat =
+  | "csv"
+  | "json"
+  | "markdown"
+  | "hootsuite"
+  | "buffer"
+  | "sprout";
+
+export type ExportFormatInfo = {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+};
+
+/**
+ * One titled group of items: a single run, one image of a batch, or one tone
+ * of a comparison.
+ */
+export type ExportSet = {
+  title: string;
+  mode: GenerationResult["mode"];
+  items: ResultItem[];
+  /** Reply sets carry the comments their items answer. */
+  comments?: ReplyComment[];
+  error?: string;
+};
+
+export type ExportFile = {
+  fileName: string;
+  mimeType: string;
+  content: string;
+};
+
+export const exportFormats: ExportFormatInfo[] = [
+  { id: "csv", label: "CSV", extension: "csv", mimeType: "text/csv;charset=utf-8" },
+  { id: "json", label: "JSON", extension: "json", mimeType: "application/json" },
+  {
+    id: "markdown",
+    label: "Markdown",
+    extension: "md",
+    mimeType: "text/markdown;charset=utf-8",
+  },
+  {
+    id: "hootsuite",
+    label: "Hootsuite bulk CSV",
+    extension: "csv",
+    mimeType: "text/csv;charset=utf-8",
+  },
+  {
+    id: "buffer",
+    label: "Buffer bulk CSV",
+    extension: "csv",
+    mimeType: "text/csv;charset=utf-8",
+  },
+  {
+    id: "sprout",
+    label: "Sprout Social bulk CSV",
+    extension: "csv",
+    mimeType: "text/csv;charset=utf-8",
+  },
+];
+
+const formulaPrefix = /^[=+\-@\t\r]/;
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return exportFormats.some((format) => format.id === value);
+}
+
+function escapeCsvCell(value: string | number | undefined) {
+  let text = value === undefined ? "" : String(value);
+
+  // Spreadsheet apps execute cells that start like formulas.
+  if (formulaPrefix.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Array<Array<string | number | undefined>>) {
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+function hashtagsOf(item: ResultItem) {
+  return "hashtags" in item ? item.hashtags : "";
+}
+
+function descriptionOf(item: ResultItem) {
+  return "description" in item ? item.description : "";
+}
+
+function slidesOf(item: ResultItem) {
+  return "slides" in item ? item.slides : [];
+}
+
+/** The replies to each comment of a reply set, in comment order. */
+function repliesByComment({ items, comments = [] }: ExportSet) {
+  return comments.map((comment, index) => ({
+    comment,
+    replies: items.filter((item) => "comment" in item && item.comment === index),
+  }));
+}
+
+/** Caption and hashtags as they would be pasted into a post. */
+function postBody(item: ResultItem) {
+  const hashtags = hashtagsOf(item);
+  return hashtags ? `${item.text}\n\n${hashtags}` : item.text;
+}
+
+/**
+ * The description column only appears when alt text is exported, the
+ * slides column (lines joined with " | ") when a carousel is, and the
+ * comment column when replies are. Reply variants are numbered per comment,
+ * and an escalated comment gets one row with the reason as its error.
+ */
+function toPlainCsv(sets: ExportSet[]) {
+  const withDescription = sets.some((set) => set.mode === "alt-text");
+  const withSlides = sets.some((set) => set.mode === "carousel");
+  const withComments = sets.some((set) => set.mode === "reply");
+  const extra = (item?: ResultItem, comment = "") => [
+    ...(withDescription ? [item ? descriptionOf(item) : ""] : []),
+    ...(withSlides ? [item ? slidesOf(item).join(" | ") : ""] : []),
+    ...(withComments ? [comment] : []),
+  ];
+
+  const rows: Array<Array<string | number | undefined>> = [
+    [
+      "source",
+      "mode",
+      "variant",
+      "text",
+      "hashtags",
+      ...(withDescription ? ["description"] : []),
+      ...(withSlides ? ["slides"] : []),
+      ...(withComments ? ["comment"] : []),
+      "error",
+    ],
+  ];
+
+  for (const set of sets) {
+    if (set.comments) {
+      for (const { comment, replies } of repliesByComment(set)) {
+        if (replies.length === 0) {
+          rows.push([
+            set.title,
+            set.mode,
+            "",
+            "",
+            "",
+            ...extra(undefined, comment.text),
+            comment.escalation ? `Needs a person: ${comment.escalation}` : "",
+          ]);
+          continue;
+        }
+
+        replies.forEach((item, index) => {
+          rows.push([
+            set.title,
+            set.mode,
+            index + 1,
+            item.text,
+            "",
+            ...extra(item, comment.text),
+            "",
+          ]);
+        });
+      }
+      continue;
+    }
+
+    if (set.items.length === 0) {
+      rows.push([set.title, set.mode, "", "", "", ...extra(), set.error]);
+      continue;
+    }
+
+    set.items.forEach((item, index) => {
+      rows.push([
+        set.title,
+        set.mode,
+        index + 1,
+        item.text,
+        hashtagsOf(item),
+        ...extra(item),
+        "",
+      ]);
+    });
+  }
+
+  return toCsv(rows);
+}
+
+function toJson(sets: ExportSet[]) {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      sets: sets.map(({ title, mode, items, comments, error }) => ({
+        title,
+        mode,
+        items,
+        ...(comments ? { comments } : {}),
+        ...(error ? { error } : {}),
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+function toMarkdown(sets: ExportSet[]) {
+  const lines: string[] = [];
+
+  for (const set of sets) {
+    lines.push(`## ${set.title}`, "");
+
+    if (set.error) {
+      lines.push(`> ${set.error}`, "");
+    }
+
+    if (set.comments) {
+      repliesByComment(set).forEach(({ comment, replies }, index) => {
+        lines.push(
+          `### Comment ${index + 1}`,
+          "",
+          `> ${comment.text.replace(/\n/g, "\n> ")}`,
+          "",
+        );
+        if (comment.escalation) {
+          lines.push(`Needs a person: ${comment.escalation}`, "");
+        }
+        replies.forEach((item, reply) => {
+          lines.push(`${reply + 1}. ${item.text}`);
+        });
+        if (replies.length > 0) lines.push("");
+      });
+      continue;
+    }
+
+    set.items.forEach((item, index) => {
+      lines.push(`${index + 1}. ${item.text}`);
+      const description = descriptionOf(item);
+      if (description) {
+        lines.push(`   ${description}`);
+      }
+      slidesOf(item).forEach((line, slide) => {
+        lines.push(`   - Slide ${slide + 1}: ${line}`);
+      });
+      const hashtags = hashtagsOf(item);
+      if (hashtags) {
+        lines.push(`   ${hashtags.replace(/#/g, "\\#")}`);
+      }
+    });
+
+    lines.push("");
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+/**
+ * Scheduler layouts leave dates and media blank: the drafts are imported
+ * first and scheduled inside the tool.
+ */
+function toSchedulerCsv(
+  sets: ExportSet[],
+  header: string[],
+  row: (item: ResultItem) => Array<string | undefined>,
+) {
+  const rows: Array<Array<string | number | undefined>> = [header];
+
+  for (const set of sets) {
+    for (const item of set.items) {
+      rows.push(row(item));
+    }
+  }
+
+  return toCsv(rows);
+}
+
+function renderContent(sets: ExportSet[], format: ExportFormat) {
+  switch (format) {
+    case "csv":
+      return toPlainCsv(sets);
+    case "json":
+      return toJson(sets);
+    case "markdown":
+      return toMarkdown(sets);
+    case "hootsuite":
+      return toSchedulerCsv(sets, ["Date", "Message", "Link"], (item) => [
+        "",
+        postBody(item),
+        "",
+      ]);
+    case "buffer":
+      return toSchedulerCsv(
+        sets,
+        ["Text", "Image URL", "Tags", "Posting Time"],
+        (item) => [postBody(item), "", "", ""],
+      );
+    case "sprout":
+      return toSchedulerCsv(
+        sets,
+        ["Date", "Time", "Message", "Link", "Image URL"],
+        (item) => ["", "", postBody(item), "", ""],
+      );
+  }
+}
+
+export function exportSets(
+  sets: ExportSet[],
+  format: ExportFormat,
+  baseName: string,
+): ExportFile {
+  const info =
+    exportFormats.find((entry) => entry.id === format) ?? exportFormats[0];
+
+  return {
+    fileName: `${baseName}.${info.extension}`,
+    mimeType: info.mimeType,
+    content: renderContent(sets, format),
+  };
+}
+
+const exportTitles: Record<GenerationResult["mode"], string> = {
+  captions: "Caption set",
+  bio: "Bio options",
+  "alt-text": "Alt text",
+  carousel: "Carousel captions",
+  reply: "Comment replies",
+};
+
+export function resultToExportSet(
+  result: GenerationResult,
+  title = exportTitles[result.mode],
+): ExportSet {
+  return {
+    title,
+    mode: result.mode,
+    items: result.items,
+    ...(result.mode === "reply" && result.comments
+      ? { comments: result.comments }
+      : {}),
+  };
+}
+
+/** Placeholder copy is exported as an error, never as captions. */
+export function batchToExportSets(results: BatchImageResult[]): ExportSet[] {
+  return results.map((result) => ({
+    title: result.name,
+    mode: "captions",
+    items: result.placeholder ? [] : (result.items ?? []),
+    error:
+      result.status === "failed"
+        ? result.error
+        : result.placeholder
+          ? "No captions generated"
+          : undefined,
+  }));
+}
+
+/** One set per compared tone, titled by the tone's label. */
+export function compareToExportSets(
+  results: CompareToneResult[],
+  mode: GenerationResult["mode"],
+): ExportSet[] {
+  return results.map((result) => ({
+    title: result.label,
+    mode,
+    items: result.placeholder ? [] : (result.items ?? []),
+    error:
+      result.status === "failed"
+        ? result.error
+        : result.placeholder
+          ? "Nothing generated in this tone"
+          : undefined,
+  }));
+}
+
+export function exportFileName(prefix: string) {
+  return `${prefix}-${new Date().toISOString().slice(0, 10)}`;
+}
+
+/** Starts a browser download for generated text content. */
+export function downloadExportFile({ fileName, content, mimeType }: ExportFile) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
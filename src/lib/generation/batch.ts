@@ -0,0 +1,34 @@
+import type {
+  CaptionItem,
+  FallbackReason,
+  GenerationResult,
+  ResultSource,
+} from "./types";
+
+export type BatchImageStatus = "pending" | "running" | "done" | "failed";
+
+export type BatchEvent =
+  | { type: "batch-start"; total: number; concurrency: number }
+  | { type: "image-start"; index: number; name: string }
+  | {
+      type: "image-done";
+      index: number;
+      name: string;
+      result: GenerationResult;
+      historyId?: string | null;
+      cached: boolean;
+      source: ResultSource;
+      fallbackReason?: FallbackReason;
+    }
+  | { type: "image-error"; index: number; name: string; error: string }
+  | { type: "batch-done"; succeeded: number; failed: number }
+  | { type: "error"; error: string; status: number };
+
+export type BatchImageResult = {
+  name: string;
+  status: BatchImageStatus;
+  items?: CaptionItem[];
+  /** The items are placeholder copy, not captions of this image. */
+  placeholder?: boolean;
+  error?: string;
+};
@@ -0,0 +1,35 @@
+import type {
+  FallbackReason,
+  GenerationResult,
+  ResultItem,
+  ResultSource,
+} from "./types";
+
+export type CompareToneStatus = "running" | "done" | "failed";
+
+/** `index` is the tone's position in the request's `tones`. */
+export type CompareEvent =
+  | { type: "compare-start"; tones: string[] }
+  | {
+      type: "tone-done";
+      index: number;
+      tone: string;
+      result: GenerationResult;
+      historyId?: string | null;
+      cached: boolean;
+      source: ResultSource;
+      fallbackReason?: FallbackReason;
+    }
+  | { type: "tone-error"; index: number; tone: string; error: string }
+  | { type: "compare-done"; succeeded: number; failed: number }
+  | { type: "error"; error: string; status: number };
+
+export type CompareToneResult = {
+  tone: string;
+  label: string;
+  status: CompareToneStatus;
+  items?: ResultItem[];
+  /** The items are placeholder copy, not drafts in this tone. */
+  placeholder?: boolean;
+  error?: string;
+};
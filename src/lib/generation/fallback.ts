@@ -0,0 +1,121 @@
+import { buildFallback } from "./payloads";
+import type {
+  FallbackReason,
+  GenerationResult,
+  GenerationSettings,
+} from "./types";
+
+/**
+ * What a route answers when the model cannot produce copy. `placeholder`
+ * sends placeholder copy marked `source: "fallback"`; `error` sends an error
+ * with the placeholder set attached as `fallback`; `off` sends the error
+ * alone.
+ */
+export type FallbackMode = "off" | "placeholder" | "error";
+
+const fallbackModes: FallbackMode[] = ["off", "placeholder", "error"];
+
+export function fallbackModeFromEnv(): FallbackMode {
+  const raw = process.env.FALLBACK_MODE?.trim().toLowerCase();
+  return fallbackModes.includes(raw as FallbackMode)
+    ? (raw as FallbackMode)
+    : "placeholder";
+}
+
+/** Thrown instead of falling back when the model's output never parsed. */
+export class InvalidOutputError extends Error {
+  constructor() {
+    super("The model returned invalid JSON twice");
+    this.name = "InvalidOutputError";
+  }
+}
+
+/**
+ * What placeholder copy needs to know about the run it stands in for;
+ * reply placeholders also name the run's comments.
+ */
+export type FallbackTarget = Pick<GenerationSettings, "mode" | "variants"> & {
+  comments?: string[];
+};
+
+export type PlaceholderResult = GenerationResult & {
+  source: "fallback";
+  fallbackReason: FallbackReason;
+};
+
+export type FallbackResolution =
+  | {
+      status: number;
+      body: PlaceholderResult;
+      reason: FallbackReason;
+      headers?: never;
+    }
+  | {
+      status: number;
+      body: {
+        error: string;
+        reason: FallbackReason;
+        retryAfter?: number;
+        fallback?: GenerationResult;
+      };
+      reason: FallbackReason;
+      headers?: Record<string, string>;
+    };
+
+const fallbackErrors: Record<
+  FallbackReason,
+  { status: number; message: string }
+> = {
+  not_configured: { status: 503, message: "No model provider is configured." },
+  invalid_json: {
+    status: 502,
+    message: "The model returned unusable output. Please try again.",
+  },
+  rate_limited: { status: 429, message: "The model is busy." },
+  error: { status: 500, message: "Something went wrong" },
+};
+
+export function placeholderResult(
+  target: FallbackTarget,
+  reason: FallbackReason,
+): PlaceholderResult {
+  return {
+    ...buildFallback(target),
+    source: "fallback",
+    fallbackReason: reason,
+  };
+}
+
+/**
+ * The answer for a run the model could not complete. Without a `target`
+ * there is nothing to fill in, so the result is always an error.
+ */
+export function resolveFallback(
+  target: FallbackTarget | null,
+  reason: FallbackReason,
+  { fallback = fallbackModeFromEnv(), retryAfter }: {
+    fallback?: FallbackMode;
+    retryAfter?: number;
+  } = {},
+): FallbackResolution {
+  if (target && fallback === "placeholder") {
+    return { status: 200, body: placeholderResult(target, reason), reason };
+  }
+
+  const { status, message } = fallbackErrors[reason];
+  return {
+    status,
+    body: {
+      error: message,
+      reason,
+      ...(retryAfter !== undefined ? { retryAfter } : {}),
+      ...(target && fallback === "error"
+        ? { fallback: buildFallback(target) }
+        : {}),
+    },
+    reason,
+    ...(retryAfter !== undefined
+      ? { headers: { "Retry-After": String(retryAfter) } }
+      : {}),
+  };
+}
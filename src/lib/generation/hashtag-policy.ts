@@ -0,0 +1,149 @@
+import { loadHashtagBlocklist } from "@/lib/hashtag-blocklist";
+import {
+  applyHashtagPolicy,
+  joinHashtags,
+  parseHashtags,
+  type HashtagPolicy,
+} from "@/lib/hashtags";
+import { getLanguage, type LanguageId } from "@/lib/languages";
+import type { ChatMessage, ModelProvider } from "@/lib/model-provider";
+import { getPlatformPreset } from "@/lib/platforms";
+import { callModel } from "./model-call";
+import type {
+  CaptionItem,
+  GenerationEventHandler,
+  GenerationSettings,
+} from "./types";
+
+type TopUpContext = {
+  input: Pick<GenerationSettings, "platform" | "language">;
+  provider: ModelProvider;
+  messages: ChatMessage[];
+  raw: string;
+  onEvent?: GenerationEventHandler;
+  signal?: AbortSignal;
+  reserved?: string[];
+  dedupeAcross?: boolean;
+};
+
+function buildTopUpInstruction(
+  shortfalls: Array<{ index: number; text: string; needed: number }>,
+  avoid: string[],
+  language: LanguageId,
+) {
+  return [
+    "Some captions need more hashtags. For each index below, suggest the requested number of additional relevant hashtags for that caption.",
+    `Lowercase; no spammy/banned tags; tags ${getLanguage(language).name} speakers actually use.`,
+    `Do not use any of these tags: ${avoid.map((tag) => `#${tag}`).join(" ") || "none"}`,
+    "",
+    ...shortfalls.map(
+      ({ index, text, needed }) => `- index ${index} (${needed} more): ${text}`,
+    ),
+    "",
+    "Output EXACTLY in JSON:",
+    "{",
+    '  "items": [',
+    '    { "index": 0, "hashtags": "#tag1 #tag2" }',
+    "  ]",
+    "}",
+  ].join("\n");
+}
+
+function parseTopUps(raw: string) {
+  const parsed = JSON.parse(raw) as { items?: unknown };
+  if (!Array.isArray(parsed?.items)) {
+    throw new Error("Invalid hashtag payload");
+  }
+
+  const topUps = new Map<number, string[]>();
+  for (const entry of parsed.items as Array<{
+    index?: unknown;
+    hashtags?: unknown;
+  }>) {
+    if (
+      entry &&
+      Number.isInteger(entry.index) &&
+      typeof entry.hashtags === "string"
+    ) {
+      topUps.set(entry.index as number, parseHashtags(entry.hashtags));
+    }
+  }
+
+  return topUps;
+}
+
+/**
+ * Applies the platform's hashtag range, the local blocklist and
+ * cross-caption de-duplication. Captions left short are topped up with one
+ * follow-up request; whatever still falls short is returned as is.
+ */
+export async function enforceHashtagPolicy<T extends CaptionItem>(
+  items: T[],
+  {
+    input,
+    provider,
+    messages,
+    raw,
+    onEvent,
+    signal,
+    reserved = [],
+    dedupeAcross = true,
+  }: TopUpContext,
+): Promise<T[]> {
+  const preset = getPlatformPreset(input.platform);
+  const policy: HashtagPolicy = {
+    min: preset.hashtags.min,
+    max: preset.hashtags.max,
+    blocked: await loadHashtagBlocklist(),
+    reserved: new Set(reserved),
+    dedupeAcross,
+  };
+
+  const first = applyHashtagPolicy(
+    items.map((item) => item.tags),
+    policy,
+  );
+  let tagSets = first.tags;
+
+  if (first.shortfalls.length > 0) {
+    onEvent?.({ type: "status", message: "Refreshing repeated hashtags…" });
+
+    try {
+      const topUpRaw = await callModel(
+        provider,
+        [
+          ...messages,
+          { role: "assistant", content: raw },
+          {
+            role: "user",
+            content: buildTopUpInstruction(
+              first.shortfalls.map((index) => ({
+                index,
+                text: items[index].text,
+                needed: policy.min - tagSets[index].length,
+              })),
+              [...first.used, ...policy.blocked],
+              input.language,
+            ),
+          },
+        ],
+        onEvent,
+        signal,
+      );
+      const topUps = parseTopUps(topUpRaw);
+
+      tagSets = applyHashtagPolicy(
+        tagSets.map((tags, index) => [...tags, ...(topUps.get(index) ?? [])]),
+        policy,
+      ).tags;
+    } catch {
+      // Keep the de-duplicated sets; fewer tags beats repeated or banned ones.
+    }
+  }
+
+  return items.map((item, index) => ({
+    ...item,
+    tags: tagSets[index],
+    hashtags: joinHashtags(tagSets[index]),
+  }));
+}
@@ -0,0 +1,244 @@
+import { NextResponse } from "next/server";
+
+export type InputField =
+  | "body"
+  | "mode"
+  | "image"
+  | "images"
+  | "tone"
+  | "tones"
+  | "guidance"
+  | "post"
+  | "comments"
+  | "maxChars"
+  | "variants"
+  | "platform"
+  | "language"
+  | "brandVoiceId"
+  | "preset"
+  | "instruction"
+  | "count"
+  | "item"
+  | "others"
+  | "items"
+  | "targets"
+  | "format"
+  | "historyId"
+  | "result";
+
+/** Stable identifiers; clients map these, not the messages. */
+export type InputErrorCode =
+  | "body_invalid"
+  | "mode_invalid"
+  | "image_missing"
+  | "image_too_large"
+  | "image_unsupported"
+  | "slides_invalid"
+  | "images_invalid"
+  | "tone_missing"
+  | "tone_invalid"
+  | "tones_invalid"
+  | "guidance_too_short"
+  | "guidance_too_long"
+  | "guidance_flagged"
+  | "post_missing"
+  | "post_too_long"
+  | "post_flagged"
+  | "comments_invalid"
+  | "comment_too_long"
+  | "max_chars_invalid"
+  | "variants_invalid"
+  | "platform_invalid"
+  | "language_invalid"
+  | "brand_voice_not_found"
+  | "preset_invalid"
+  | "instruction_missing"
+  | "instruction_too_long"
+  | "instruction_flagged"
+  | "count_invalid"
+  | "item_invalid"
+  | "item_flagged"
+  | "others_invalid"
+  | "items_invalid"
+  | "items_flagged"
+  | "targets_invalid"
+  | "format_invalid"
+  | "history_id_missing"
+  | "result_invalid";
+
+/** `min`/`max` are characters, except for images, where `max` is bytes. */
+export type InputLimits = { min?: number; max?: number; allowed?: string[] };
+
+export type InputError = {
+  code: InputErrorCode;
+  field: InputField;
+  message: string;
+  limits?: InputLimits;
+};
+
+export const flaggedInputError =
+  "Your text was flagged by content moderation. Please rephrase it.";
+
+export type Checked<T> = { ok: true; value: T } | { ok: false; error: InputError };
+
+const fieldByCode: Record<InputErrorCode, InputField> = {
+  body_invalid: "body",
+  mode_invalid: "mode",
+  image_missing: "image",
+  image_too_large: "image",
+  image_unsupported: "image",
+  slides_invalid: "images",
+  images_invalid: "images",
+  tone_missing: "tone",
+  tone_invalid: "tone",
+  tones_invalid: "tones",
+  guidance_too_short: "guidance",
+  guidance_too_long: "guidance",
+  guidance_flagged: "guidance",
+  post_missing: "post",
+  post_too_long: "post",
+  post_flagged: "post",
+  comments_invalid: "comments",
+  comment_too_long: "comments",
+  max_chars_invalid: "maxChars",
+  variants_invalid: "variants",
+  platform_invalid: "platform",
+  language_invalid: "language",
+  brand_voice_not_found: "brandVoiceId",
+  preset_invalid: "preset",
+  instruction_missing: "instruction",
+  instruction_too_long: "instruction",
+  instruction_flagged: "instruction",
+  count_invalid: "count",
+  item_invalid: "item",
+  item_flagged: "item",
+  others_invalid: "others",
+  items_invalid: "items",
+  items_flagged: "items",
+  targets_invalid: "targets",
+  format_invalid: "format",
+  history_id_missing: "historyId",
+  result_invalid: "result",
+};
+
+function describe(code: InputErrorCode, limits: InputLimits = {}) {
+  switch (code) {
+    case "body_invalid":
+      return "Send the request as multipart form data.";
+    case "mode_invalid":
+      return `Mode must be one of ${limits.allowed?.join(", ")}.`;
+    case "image_missing":
+      return "Upload an image.";
+    case "image_too_large":
+      return `Images must be ${Math.round((limits.max ?? 0) / 1024 / 1024)} MB or smaller.`;
+    case "image_unsupported":
+      return "Unsupported image. Use JPG, PNG, WebP, HEIC or AVIF.";
+    case "slides_invalid":
+      return `A carousel needs ${limits.min} to ${limits.max} images.`;
+    case "images_invalid":
+      return `A batch needs ${limits.min} to ${limits.max} images.`;
+    case "tone_missing":
+      return "Pick a tone.";
+    case "tone_invalid":
+      return `Tone must be one of ${limits.allowed?.join(", ")}.`;
+    case "tones_invalid":
+      return `Pick ${limits.min} to ${limits.max} different tones to compare.`;
+    case "guidance_too_short":
+      return `About text must be at least ${limits.min} characters.`;
+    case "guidance_too_long":
+      return `Guidance must be ${limits.max} characters or fewer.`;
+    case "guidance_flagged":
+    case "post_flagged":
+    case "instruction_flagged":
+      return flaggedInputError;
+    case "item_flagged":
+    case "items_flagged":
+      return "This copy was flagged by content moderation. Edit it or generate a new set first.";
+    case "post_missing":
+      return "Paste the caption of the post the comments are on.";
+    case "post_too_long":
+      return `The post caption must be ${limits.max} characters or fewer.`;
+    case "comments_invalid":
+      return `Add ${limits.min} to ${limits.max} comments.`;
+    case "comment_too_long":
+      return `Comments must be ${limits.max} characters or fewer.`;
+    case "max_chars_invalid":
+      return `Max characters must be a whole number between ${limits.min} and ${limits.max}.`;
+    case "variants_invalid":
+      return `Variants must be a whole number between ${limits.min} and ${limits.max}.`;
+    case "platform_invalid":
+      return "Unknown platform.";
+    case "language_invalid":
+      return "Unsupported language.";
+    case "brand_voice_not_found":
+      return "That brand voice no longer exists.";
+    case "preset_invalid":
+      return `Preset must be one of ${limits.allowed?.join(", ")}.`;
+    case "instruction_missing":
+      return "Pick a preset or write an instruction.";
+    case "instruction_too_long":
+      return `Instructions must be ${limits.max} characters or fewer.`;
+    case "count_invalid":
+      return `Count must be a whole number between ${limits.min} and ${limits.max}.`;
+    case "item_invalid":
+      return "item must be one result item of this mode, as JSON.";
+    case "others_invalid":
+      return `others must be a JSON array of at most ${limits.max} result items of this mode.`;
+    case "items_invalid":
+      return `items must be a JSON array of ${limits.min} to ${limits.max} result items of this mode.`;
+    case "targets_invalid":
+      return `Pick ${limits.min} to ${limits.max} different target languages, none the same as the source.`;
+    case "format_invalid":
+      return `Format must be one of ${limits.allowed?.join(", ")}.`;
+    case "history_id_missing":
+      return "Pass the historyId of the entry to export.";
+    case "result_invalid":
+      return `result must be a generation result with at most ${limits.max} items.`;
+  }
+}
+
+export function inputError(
+  code: InputErrorCode,
+  limits?: InputLimits,
+): InputError {
+  return {
+    code,
+    field: fieldByCode[code],
+    message: describe(code, limits),
+    ...(limits ? { limits } : {}),
+  };
+}
+
+export function invalid<T>(code: InputErrorCode, limits?: InputLimits) {
+  return { ok: false, error: inputError(code, limits) } as Checked<T>;
+}
+
+export function inputErrorStatus(error: InputError) {
+  return error.code === "image_too_large" ? 413 : 400;
+}
+
+/**
+ * The JSON body for a rejected request. `error` stays the readable message
+ * so older clients keep working; `code`, `field` and `limits` are for
+ * clients that show the problem next to the field.
+ */
+export function inputErrorBody(
+  { code, field, message, limits }: InputError,
+  requestId: string,
+) {
+  return { error: message, code, field, limits, requestId };
+}
+
+export function inputErrorResponse(
+  error: InputError,
+  requestId: string,
+  extra?: Record<string, unknown>,
+) {
+  return NextResponse.json(
+    { ...inputErrorBody(error, requestId), ...extra },
+    {
+      status: inputErrorStatus(error),
+      headers: { "X-Request-Id": requestId },
+    },
+  );
+}
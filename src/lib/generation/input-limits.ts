@@ -0,0 +1,10 @@
+/**
+ * Text limits checked by the server and mirrored by the form. Kept free of
+ * server imports so client components can use them.
+ */
+export const maxCaptionGuidanceLength = 280;
+export const minBioGuidanceLength = 10;
+export const maxBioGuidanceLength = 400;
+
+export const maxReplyPostLength = 2200;
+export const maxReplyCommentLength = 500;
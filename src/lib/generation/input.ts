@@ -0,0 +1,601 @@
+import { createHash } from "node:crypto";
+import { brandVoiceStore } from "@/lib/brand-voice-store";
+import type { BrandVoice } from "@/lib/brand-voices";
+import { customToneStore } from "@/lib/custom-tone-store";
+import type { CustomTone } from "@/lib/custom-tones";
+import { readPositiveInt } from "@/lib/env";
+import {
+  acceptedImageFormats,
+  imageMaxUploadBytes,
+  prepareImage,
+} from "@/lib/image-preprocess";
+import {
+  defaultLanguageId,
+  isLanguageId,
+  languages,
+  type LanguageId,
+} from "@/lib/languages";
+import {
+  defaultPlatformId,
+  getPlatformPreset,
+  isPlatformId,
+  maxCharsLimitFor,
+  maxCharsMin,
+  platformPresets,
+  type PlatformId,
+} from "@/lib/platforms";
+import { inputError, invalid, type Checked } from "./input-errors";
+import {
+  maxBioGuidanceLength,
+  maxCaptionGuidanceLength,
+  maxReplyCommentLength,
+  maxReplyPostLength,
+  minBioGuidanceLength,
+} from "./input-limits";
+import type {
+  AltTextInput,
+  BuiltInTone,
+  CaptionsInput,
+  CarouselInput,
+  GenerationInput,
+  GenerationSettings,
+  Mode,
+  ReplyInput,
+  Tone,
+} from "./types";
+import { variantBounds } from "./variants";
+
+/** The built-in presets; custom tones from the store are accepted too. */
+export const allowedTones: BuiltInTone[] = [
+  "funny",
+  "poetic",
+  "classy",
+  "branded",
+];
+
+export const minCarouselSlides = 2;
+const defaultCarouselMaxSlides = 10;
+
+export const minCompareTones = 2;
+const defaultCompareMaxTones = 4;
+
+export const minReplyComments = 1;
+const defaultReplyMaxComments = 10;
+
+export const modes: Mode[] = [
+  "captions",
+  "bio",
+  "alt-text",
+  "carousel",
+  "reply",
+];
+
+export const invalidModeError = inputError("mode_invalid", {
+  allowed: modes,
+});
+
+/** The modes a tone comparison can run: one image or one About text. */
+export const compareModes: Mode[] = ["captions", "bio"];
+
+export function readMode(formData: FormData): Mode | null {
+  const modeValue = formData.get("mode");
+
+  return modes.includes(modeValue as Mode) ? (modeValue as Mode) : null;
+}
+
+/** `CAROUSEL_MAX_SLIDES`, never below `minCarouselSlides`. */
+export function carouselMaxSlides() {
+  return Math.max(
+    readPositiveInt(process.env.CAROUSEL_MAX_SLIDES, defaultCarouselMaxSlides),
+    minCarouselSlides,
+  );
+}
+
+/** `REPLY_MAX_COMMENTS`: how many comments one reply run answers. */
+export function replyMaxComments() {
+  return readPositiveInt(
+    process.env.REPLY_MAX_COMMENTS,
+    defaultReplyMaxComments,
+  );
+}
+
+/** `COMPARE_MAX_TONES`, never below `minCompareTones`. */
+export function compareMaxTones() {
+  return Math.max(
+    readPositiveInt(process.env.COMPARE_MAX_TONES, defaultCompareMaxTones),
+    minCompareTones,
+  );
+}
+
+/** `bypassCache=true` asks for fresh variants instead of a cached result. */
+export function readCacheMode(formData: FormData) {
+  const value = formData.get("bypassCache");
+  return value === "true" || value === "1" ? "bypass" : "use";
+}
+
+type SharedFields = {
+  tone?: Tone;
+  guidance: string;
+  maxChars?: number;
+  variants: number;
+  platform: PlatformId;
+  language: LanguageId;
+  brandVoice?: BrandVoice;
+  customTone?: CustomTone;
+};
+
+export function isBuiltInTone(value: string): value is BuiltInTone {
+  return allowedTones.includes(value as BuiltInTone);
+}
+
+export type ResolvedTone = { tone: Tone; customTone?: CustomTone };
+
+/**
+ * Resolves `tone` to a built-in preset (case-insensitive) or a stored custom
+ * tone, which is returned alongside so prompts can describe it.
+ */
+async function readTone(
+  toneRaw: FormDataEntryValue | null,
+): Promise<Checked<Partial<ResolvedTone>>> {
+  if (typeof toneRaw !== "string" || toneRaw.length === 0) {
+    return { ok: true, value: {} };
+  }
+
+  const lowered = toneRaw.toLowerCase();
+  if (isBuiltInTone(lowered)) {
+    return { ok: true, value: { tone: lowered } };
+  }
+
+  const customTone = await customToneStore.get(toneRaw);
+  if (customTone) {
+    return { ok: true, value: { tone: customTone.id, customTone } };
+  }
+
+  const customTones = await customToneStore.list();
+  return invalid("tone_invalid", {
+    allowed: [...allowedTones, ...customTones.map((entry) => entry.id)],
+  });
+}
+
+/**
+ * The repeated `tones` field of a comparison, in the order sent. Repeats are
+ * dropped before the count is checked.
+ */
+export async function readCompareTones(
+  formData: FormData,
+): Promise<Checked<ResolvedTone[]>> {
+  const tones: ResolvedTone[] = [];
+
+  for (const entry of formData.getAll("tones")) {
+    const resolved = await readTone(entry);
+    if (!resolved.ok) return resolved;
+
+    const { tone, customTone } = resolved.value;
+    if (tone && !tones.some((other) => other.tone === tone)) {
+      tones.push({ tone, customTone });
+    }
+  }
+
+  const maxTones = compareMaxTones();
+  if (tones.length < minCompareTones || tones.length > maxTones) {
+    return invalid("tones_invalid", { min: minCompareTones, max: maxTones });
+  }
+
+  return { ok: true, value: tones };
+}
+
+async function readSharedFields(
+  formData: FormData,
+  mode: Mode,
+): Promise<Checked<SharedFields>> {
+  const toneResult = await readTone(formData.get("tone"));
+  if (!toneResult.ok) return toneResult;
+
+  const { tone, customTone } = toneResult.value;
+
+  const guidanceRaw = formData.get("guidance");
+  const guidance = typeof guidanceRaw === "string" ? guidanceRaw.trim() : "";
+
+  const platformRaw = formData.get("platform");
+  if (platformRaw !== null && !isPlatformId(platformRaw)) {
+    return invalid("platform_invalid", {
+      allowed: platformPresets.map((preset) => preset.id),
+    });
+  }
+
+  const platform = platformRaw ?? defaultPlatformId;
+
+  const languageRaw = formData.get("language");
+  if (languageRaw !== null && !isLanguageId(languageRaw)) {
+    return invalid("language_invalid", {
+      allowed: languages.map((language) => language.id),
+    });
+  }
+
+  const language = languageRaw ?? defaultLanguageId;
+  const maxCharsMax = maxCharsLimitFor(getPlatformPreset(platform), mode);
+
+  const brandVoiceRaw = formData.get("brandVoiceId");
+  let brandVoice: BrandVoice | undefined;
+  if (typeof brandVoiceRaw === "string" && brandVoiceRaw.length > 0) {
+    brandVoice = (await brandVoiceStore.get(brandVoiceRaw)) ?? undefined;
+    if (!brandVoice) {
+      return invalid("brand_voice_not_found");
+    }
+  }
+
+  const maxCharsRaw = formData.get("maxChars");
+  const maxChars =
+    typeof maxCharsRaw === "string" && maxCharsRaw.length > 0
+      ? Number(maxCharsRaw)
+      : undefined;
+
+  if (
+    maxChars !== undefined &&
+    (!Number.isInteger(maxChars) ||
+      maxChars < maxCharsMin ||
+      maxChars > maxCharsMax)
+  ) {
+    return invalid("max_chars_invalid", {
+      min: maxCharsMin,
+      max: maxCharsMax,
+    });
+  }
+
+  const bounds = variantBounds(mode);
+  const variantsRaw = formData.get("variants");
+  const variants =
+    typeof variantsRaw === "string" && variantsRaw.length > 0
+      ? Number(variantsRaw)
+      : bounds.default;
+
+  if (
+    !Number.isInteger(variants) ||
+    variants < bounds.min ||
+    variants > bounds.max
+  ) {
+    return invalid("variants_invalid", { min: bounds.min, max: bounds.max });
+  }
+
+  return {
+    ok: true,
+    value: {
+      tone,
+      guidance,
+      maxChars,
+      variants,
+      platform,
+      language,
+      brandVoice,
+      customTone,
+    },
+  };
+}
+
+/** Everything a captions request needs apart from the image itself. */
+export async function readCaptionSettings(
+  formData: FormData,
+): Promise<Checked<Omit<CaptionsInput, "image">>> {
+  const fields = await readSharedFields(formData, "captions");
+  if (!fields.ok) return fields;
+
+  const { tone, guidance } = fields.value;
+
+  if (!tone) {
+    return invalid("tone_missing", { allowed: allowedTones });
+  }
+
+  if (guidance.length > maxCaptionGuidanceLength) {
+    return invalid("guidance_too_long", { max: maxCaptionGuidanceLength });
+  }
+
+  return { ok: true, value: { ...fields.value, mode: "captions", tone } };
+}
+
+/**
+ * Alt text describes rather than sells, so tone and brand voice are ignored;
+ * guidance is optional context, such as names or the purpose of the post,
+ * with the same limit as caption guidance.
+ */
+export async function readAltTextSettings(
+  formData: FormData,
+): Promise<Checked<Omit<AltTextInput, "image">>> {
+  const fields = await readSharedFields(formData, "alt-text");
+  if (!fields.ok) return fields;
+
+  if (fields.value.guidance.length > maxCaptionGuidanceLength) {
+    return invalid("guidance_too_long", { max: maxCaptionGuidanceLength });
+  }
+
+  return {
+    ok: true,
+    value: {
+      ...fields.value,
+      mode: "alt-text",
+      tone: "classy",
+      brandVoice: undefined,
+      customTone: undefined,
+    },
+  };
+}
+
+/**
+ * Caption settings plus `slideLines`, which is on unless sent as `false`.
+ * Variant bounds are the carousel's own.
+ */
+export async function readCarouselSettings(
+  formData: FormData,
+): Promise<Checked<Omit<CarouselInput, "images">>> {
+  const fields = await readSharedFields(formData, "carousel");
+  if (!fields.ok) return fields;
+
+  const { tone, guidance } = fields.value;
+
+  if (!tone) {
+    return invalid("tone_missing", { allowed: allowedTones });
+  }
+
+  if (guidance.length > maxCaptionGuidanceLength) {
+    return invalid("guidance_too_long", { max: maxCaptionGuidanceLength });
+  }
+
+  const slideLinesRaw = formData.get("slideLines");
+
+  return {
+    ok: true,
+    value: {
+      ...fields.value,
+      mode: "carousel",
+      tone,
+      slideLines: slideLinesRaw !== "false" && slideLinesRaw !== "0",
+    },
+  };
+}
+
+/**
+ * Caption settings plus the post caption (`post`) and the repeated
+ * `comments` field. Blank comments are skipped; the rest keep their order.
+ */
+export async function readReplySettings(
+  formData: FormData,
+): Promise<Checked<Omit<ReplyInput, "image">>> {
+  const fields = await readSharedFields(formData, "reply");
+  if (!fields.ok) return fields;
+
+  const { tone, guidance } = fields.value;
+
+  if (!tone) {
+    return invalid("tone_missing", { allowed: allowedTones });
+  }
+
+  if (guidance.length > maxCaptionGuidanceLength) {
+    return invalid("guidance_too_long", { max: maxCaptionGuidanceLength });
+  }
+
+  const postRaw = formData.get("post");
+  const post = typeof postRaw === "string" ? postRaw.trim() : "";
+
+  if (!post) {
+    return invalid("post_missing");
+  }
+
+  if (post.length > maxReplyPostLength) {
+    return invalid("post_too_long", { max: maxReplyPostLength });
+  }
+
+  const comments = formData
+    .getAll("comments")
+    .map((entry) => (typeof entry === "string" ? entry.trim() : ""))
+    .filter(Boolean);
+  const maxComments = replyMaxComments();
+
+  if (comments.length < minReplyComments || comments.length > maxComments) {
+    return invalid("comments_invalid", {
+      min: minReplyComments,
+      max: maxComments,
+    });
+  }
+
+  const tooLong = comments.findIndex(
+    (comment) => comment.length > maxReplyCommentLength,
+  );
+  if (tooLong !== -1) {
+    const error = inputError("comment_too_long", {
+      max: maxReplyCommentLength,
+    });
+    return {
+      ok: false,
+      error: { ...error, message: `Comment ${tooLong + 1}: ${error.message}` },
+    };
+  }
+
+  return {
+    ok: true,
+    value: { ...fields.value, mode: "reply", tone, post, comments },
+  };
+}
+
+/**
+ * Reads the repeated `images` field of a carousel, keeping upload order.
+ * Images are prepared one at a time; the first unreadable one rejects the
+ * request with its slide number in the message.
+ */
+export async function readCarouselImages(
+  entries: FormDataEntryValue[],
+): Promise<Checked<CarouselInput["images"]>> {
+  const files = entries.filter(
+    (entry): entry is File => entry instanceof File && entry.size > 0,
+  );
+  const maxSlides = carouselMaxSlides();
+
+  if (files.length < minCarouselSlides || files.length > maxSlides) {
+    return invalid("slides_invalid", {
+      min: minCarouselSlides,
+      max: maxSlides,
+    });
+  }
+
+  const images: CarouselInput["images"] = [];
+  for (const [index, file] of files.entries()) {
+    const image = await readCaptionImage(file);
+    if (!image.ok) {
+      return {
+        ok: false,
+        error: {
+          ...image.error,
+          message: `Slide ${index + 1}: ${image.error.message}`,
+        },
+      };
+    }
+    images.push(image.value);
+  }
+
+  return { ok: true, value: images };
+}
+
+/**
+ * Reads an uploaded image and prepares it for the model. The format is
+ * sniffed from the bytes rather than trusted from the upload's MIME type,
+ * which phones often leave empty for HEIC. `hash` identifies the original
+ * upload, so the same photo matches across preprocessing settings.
+ */
+export async function readCaptionImage(
+  image: FormDataEntryValue | null,
+): Promise<Checked<CaptionsInput["image"]>> {
+  if (!(image instanceof File) || image.size === 0) {
+    return invalid("image_missing");
+  }
+
+  const maxBytes = imageMaxUploadBytes();
+  if (image.size > maxBytes) {
+    return invalid("image_too_large", { max: maxBytes });
+  }
+
+  const bytes = Buffer.from(await image.arrayBuffer());
+  const prepared = await prepareImage(bytes);
+  if (!prepared) {
+    return invalid("image_unsupported", { allowed: acceptedImageFormats });
+  }
+
+  const dataUrl = `data:${prepared.type};base64,${prepared.bytes.toString("base64")}`;
+  const hash = createHash("sha256").update(bytes).digest("hex");
+
+  return { ok: true, value: { type: prepared.type, dataUrl, hash } };
+}
+
+export async function readGenerationInput(
+  formData: FormData,
+  mode: Mode,
+): Promise<Checked<GenerationInput>> {
+  if (mode === "captions" || mode === "alt-text") {
+    const settings =
+      mode === "captions"
+        ? await readCaptionSettings(formData)
+        : await readAltTextSettings(formData);
+    if (!settings.ok) return settings;
+
+    const image = await readCaptionImage(formData.get("image"));
+    if (!image.ok) return image;
+
+    return {
+      ok: true,
+      value: { ...settings.value, image: image.value } as GenerationInput,
+    };
+  }
+
+  if (mode === "carousel") {
+    const settings = await readCarouselSettings(formData);
+    if (!settings.ok) return settings;
+
+    const images = await readCarouselImages(formData.getAll("images"));
+    if (!images.ok) return images;
+
+    return { ok: true, value: { ...settings.value, images: images.value } };
+  }
+
+  if (mode === "reply") {
+    const settings = await readReplySettings(formData);
+    if (!settings.ok) return settings;
+
+    // The post image is optional context; when sent it must be readable.
+    const imageEntry = formData.get("image");
+    if (!(imageEntry instanceof File) || imageEntry.size === 0) {
+      return settings;
+    }
+
+    const image = await readCaptionImage(imageEntry);
+    if (!image.ok) return image;
+
+    return { ok: true, value: { ...settings.value, image: image.value } };
+  }
+
+  // bio mode
+  const fields = await readSharedFields(formData, mode);
+  if (!fields.ok) return fields;
+
+  const { tone, guidance } = fields.value;
+
+  if (guidance.length < minBioGuidanceLength) {
+    return invalid("guidance_too_short", {
+      min: minBioGuidanceLength,
+      max: maxBioGuidanceLength,
+    });
+  }
+
+  if (guidance.length > maxBioGuidanceLength) {
+    return invalid("guidance_too_long", { max: maxBioGuidanceLength });
+  }
+
+  return {
+    ok: true,
+    value: { ...fields.value, mode, tone: tone || "classy" },
+  };
+}
+
+/**
+ * Settings for work on copy that already exists, such as translation: no
+ * image is needed and the bio About text is optional.
+ */
+export async function readGenerationSettings(
+  formData: FormData,
+  mode: Mode,
+): Promise<Checked<GenerationSettings>> {
+  if (mode === "captions") {
+    return readCaptionSettings(formData);
+  }
+
+  if (mode === "alt-text") {
+    return readAltTextSettings(formData);
+  }
+
+  if (mode === "carousel") {
+    return readCarouselSettings(formData);
+  }
+
+  if (mode === "reply") {
+    return readReplySettings(formData);
+  }
+
+  const fields = await readSharedFields(formData, mode);
+  if (!fields.ok) return fields;
+
+  if (fields.value.guidance.length > maxBioGuidanceLength) {
+    return invalid("guidance_too_long", { max: maxBioGuidanceLength });
+  }
+
+  return {
+    ok: true,
+    value: { ...fields.value, mode, tone: fields.value.tone || "classy" },
+  };
+}
+
+/**
+ * The character cap the output must respect: the caller's `maxChars` when
+ * set, otherwise the platform's own limit for the mode.
+ */
+export function resolveMaxChars(input: GenerationSettings) {
+  return (
+    input.maxChars ??
+    maxCharsLimitFor(getPlatformPreset(input.platform), input.mode)
+  );
+}
@@ -0,0 +1,77 @@
+const itemsArrayPattern = /"items"\s*:\s*\[/;
+
+/**
+ * Watches a streamed JSON reply and hands back each element of the top-level
+ * `items` array as soon as its closing brace arrives, long before the whole
+ * document is parseable.
+ */
+export function createItemStreamParser(
+  onItem: (value: unknown, index: number) => void,
+) {
+  let buffer = "";
+  let cursor = -1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+  let count = 0;
+  let finished = false;
+
+  function scan() {
+    if (cursor === -1) {
+      const match = itemsArrayPattern.exec(buffer);
+      if (!match) return;
+      cursor = match.index + match[0].length;
+    }
+
+    for (; cursor < buffer.length && !finished; cursor += 1) {
+      const char = buffer[cursor];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        if (depth === 0) objectStart = cursor;
+        depth += 1;
+      } else if (char === "}" || char === "]") {
+        if (depth === 0) {
+          finished = true;
+          break;
+        }
+
+        depth -= 1;
+        if (depth === 0 && objectStart !== -1) {
+          const slice = buffer.slice(objectStart, cursor + 1);
+          objectStart = -1;
+
+          try {
+            onItem(JSON.parse(slice), count);
+          } catch {
+            // Malformed elements are caught again by full-payload validation.
+          }
+          count += 1;
+        }
+      }
+    }
+  }
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      scan();
+    },
+    get text() {
+      return buffer;
+    },
+  };
+}
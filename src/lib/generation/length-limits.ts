@@ -0,0 +1,218 @@
+import { joinHashtags } from "@/lib/hashtags";
+import type { ChatMessage, ModelProvider } from "@/lib/model-provider";
+import { getPlatformPreset } from "@/lib/platforms";
+import { countGraphemes, trimToLength } from "@/lib/text-length";
+import { resolveMaxChars } from "./input";
+import { callModel } from "./model-call";
+import type {
+  GenerationEventHandler,
+  GenerationResult,
+  GenerationSettings,
+  LengthAdjustment,
+  ResultItem,
+} from "./types";
+
+type RewriteContext = {
+  input: GenerationSettings;
+  provider: ModelProvider;
+  messages: ChatMessage[];
+  raw: string;
+  onEvent?: GenerationEventHandler;
+  signal?: AbortSignal;
+};
+
+type Offending = {
+  index: number;
+  text: string;
+  length: number;
+  budget: number;
+};
+
+/** How a caption and its hashtag line are joined when posted. */
+const hashtagSeparator = "\n\n";
+
+/** Characters the hashtag line and its separator take from the limit. */
+function hashtagCost(input: GenerationSettings, item: ResultItem) {
+  if (!("hashtags" in item) || !item.hashtags) return 0;
+  if (!getPlatformPreset(input.platform).hashtagsShareLimit) return 0;
+  return countGraphemes(hashtagSeparator) + countGraphemes(item.hashtags);
+}
+
+/**
+ * Characters left for an item's `text`. On networks that count hashtags
+ * toward the caption limit, the hashtag line comes out of the budget.
+ */
+export function textBudget(
+  input: GenerationSettings,
+  item: ResultItem,
+  limit: number,
+) {
+  return limit - hashtagCost(input, item);
+}
+
+/**
+ * Drops tags from the end of a shared-limit hashtag line until it takes at
+ * most half of `limit`, so an over-length caption always keeps room.
+ */
+function fitHashtags(
+  input: GenerationSettings,
+  item: ResultItem,
+  limit: number,
+): ResultItem {
+  if (!("tags" in item)) return item;
+
+  let tags = item.tags;
+  let fitted = item;
+  while (tags.length > 0 && hashtagCost(input, fitted) > limit / 2) {
+    tags = tags.slice(0, -1);
+    fitted = { ...item, tags, hashtags: joinHashtags(tags) };
+  }
+  return fitted;
+}
+
+/** Graphemes an item takes when posted, shared-limit hashtags included. */
+export function postLength(input: GenerationSettings, item: ResultItem) {
+  return countGraphemes(item.text) + hashtagCost(input, item);
+}
+
+function buildRewriteInstruction(
+  offending: Offending[],
+  limit: number,
+  sharesLimit: boolean,
+) {
+  return [
+    `Some items are longer than the ${limit}-character limit. Rewrite ONLY these items so each fits the character budget given for it, keeping the tone, angle and meaning.`,
+    ...(sharesLimit
+      ? [
+          "Hashtags count toward the limit on this network, so each budget is what is left after that item's hashtag line. Do not change the hashtags.",
+        ]
+      : []),
+    "",
+    ...offending.map(
+      ({ index, text, length, budget }) =>
+        `- index ${index} (${length} characters, budget ${budget}): ${text}`,
+    ),
+    "",
+    "Output EXACTLY in JSON:",
+    "{",
+    '  "items": [',
+    '    { "index": 0, "text": "shorter rewrite" }',
+    "  ]",
+    "}",
+  ].join("\n");
+}
+
+/** Parses `{ items: [{ index, text }] }`, skipping malformed entries. */
+export function parseRewrites(raw: string) {
+  const parsed = JSON.parse(raw) as { items?: unknown };
+  if (!Array.isArray(parsed?.items)) {
+    throw new Error("Invalid rewrite payload");
+  }
+
+  const rewrites = new Map<number, string>();
+  for (const entry of parsed.items as Array<{ index?: unknown; text?: unknown }>) {
+    if (
+      entry &&
+      Number.isInteger(entry.index) &&
+      typeof entry.text === "string" &&
+      entry.text.trim()
+    ) {
+      rewrites.set(entry.index as number, entry.text.trim());
+    }
+  }
+
+  return rewrites;
+}
+
+/**
+ * Measures every item against the effective character limit, counting the
+ * hashtag line too where the platform preset says hashtags share it.
+ * Offending items are sent back to the model once, in a single follow-up
+ * turn; anything still too long afterwards is trimmed at a sentence boundary.
+ */
+export async function enforceLengthLimits(
+  result: GenerationResult,
+  { input, provider, messages, raw, onEvent, signal }: RewriteContext,
+): Promise<GenerationResult> {
+  const limit = resolveMaxChars(input);
+  const sharesLimit = getPlatformPreset(input.platform).hashtagsShareLimit;
+
+  const items = result.items.map((item) =>
+    postLength(input, item) > limit ? fitHashtags(input, item, limit) : item,
+  );
+  const adjustments: LengthAdjustment[] = [];
+  const offending: Offending[] = [];
+
+  items.forEach((item, index) => {
+    const budget = textBudget(input, item, limit);
+    const length = postLength(input, result.items[index]);
+    if (countGraphemes(item.text) > budget) {
+      offending.push({ index, text: item.text, length, budget });
+    } else if (item !== result.items[index]) {
+      adjustments.push({
+        index,
+        action: "trimmed",
+        originalLength: length,
+        finalLength: postLength(input, item),
+      });
+    }
+  });
+
+  if (offending.length === 0) {
+    return adjustments.length > 0
+      ? ({ ...result, items, adjustments } as GenerationResult)
+      : result;
+  }
+
+  onEvent?.({
+    type: "status",
+    message: `Tightening ${offending.length} ${offending.length === 1 ? "item" : "items"} to fit ${limit} characters…`,
+  });
+
+  let rewrites = new Map<number, string>();
+  try {
+    const rewriteRaw = await callModel(
+      provider,
+      [
+        ...messages,
+        { role: "assistant", content: raw },
+        {
+          role: "user",
+          content: buildRewriteInstruction(offending, limit, sharesLimit),
+        },
+      ],
+      onEvent,
+      signal,
+    );
+    rewrites = parseRewrites(rewriteRaw);
+  } catch {
+    // Trimming below still guarantees the limit.
+  }
+
+  for (const { index, text, length, budget } of offending) {
+    const rewrite = rewrites.get(index);
+
+    if (rewrite && countGraphemes(rewrite) <= budget) {
+      items[index] = { ...items[index], text: rewrite };
+      adjustments.push({
+        index,
+        action: "regenerated",
+        originalLength: length,
+        finalLength: postLength(input, items[index]),
+      });
+      continue;
+    }
+
+    const trimmed = trimToLength(rewrite ?? text, budget);
+    items[index] = { ...items[index], text: trimmed };
+    adjustments.push({
+      index,
+      action: "trimmed",
+      originalLength: length,
+      finalLength: postLength(input, items[index]),
+    });
+  }
+
+  adjustments.sort((a, b) => a.index - b.index);
+  return { ...result, items, adjustments } as GenerationResult;
+}
@@ -0,0 +1,113 @@
+import OpenAI from "openai";
+import { sleep } from "@/lib/deadline";
+import type { ChatMessage, ModelProvider } from "@/lib/model-provider";
+import type { GenerationEventHandler } from "./types";
+
+const MAX_MODEL_ATTEMPTS = 3;
+const defaultRateLimitWaitSeconds = 20;
+
+/** How long a rate-limited provider asked us to wait, or null for other errors. */
+export function rateLimitWaitMs(error: unknown) {
+  if (
+    !(error instanceof OpenAI.RateLimitError) &&
+    (error as { status?: number }).status !== 429
+  ) {
+    return null;
+  }
+
+  const headers = (error as { headers?: Headers }).headers;
+  const retryAfterHeader = headers?.get?.("retry-after");
+  const retryAfterSeconds = retryAfterHeader
+    ? Number.parseFloat(retryAfterHeader)
+    : NaN;
+  const waitSeconds =
+    Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0
+      ? retryAfterSeconds
+      : defaultRateLimitWaitSeconds;
+
+  return waitSeconds * 1000;
+}
+
+/**
+ * Runs `task`, waiting out rate limits between attempts. Once `signal` is
+ * aborted no new attempt starts and a pending wait rejects straight away.
+ */
+export async function withRateLimitRetry<T>(
+  task: () => Promise<T>,
+  onEvent?: GenerationEventHandler,
+  signal?: AbortSignal,
+) {
+  let lastError: unknown = null;
+
+  for (let attempt = 1; attempt <= MAX_MODEL_ATTEMPTS; attempt += 1) {
+    signal?.throwIfAborted();
+
+    try {
+      return await task();
+    } catch (error) {
+      lastError = error;
+      signal?.throwIfAborted();
+
+      const waitMs = rateLimitWaitMs(error);
+      if (waitMs === null) {
+        throw error;
+      }
+
+      if (attempt === MAX_MODEL_ATTEMPTS) {
+        break;
+      }
+
+      onEvent?.({
+        type: "retry",
+        attempt: attempt + 1,
+        waitMs,
+        reason: "rate_limited",
+      });
+      await sleep(waitMs, signal);
+    }
+  }
+
+  throw lastError ?? new Error("Model request failed");
+}
+
+export function callModel(
+  provider: ModelProvider,
+  messages: ChatMessage[],
+  onEvent?: GenerationEventHandler,
+  signal?: AbortSignal,
+) {
+  return withRateLimitRetry(
+    () => provider.complete(messages, { signal }),
+    onEvent,
+    signal,
+  );
+}
+
+/**
+ * Streams a completion, passing every delta to `onDelta`. `onAttempt` runs
+ * before each try so callers can discard output from an attempt that was cut
+ * short by a rate limit.
+ */
+export function streamModel(
+  provider: ModelProvider,
+  messages: ChatMessage[],
+  handlers: { onAttempt: () => void; onDelta: (delta: string) => void },
+  onEvent?: GenerationEventHandler,
+  signal?: AbortSignal,
+) {
+  return withRateLimitRetry(async () => {
+    handlers.onAttempt();
+
+    let text = "";
+    for await (const delta of provider.stream(messages, { signal })) {
+      text += delta;
+      handlers.onDelta(delta);
+    }
+
+    if (!text.trim()) {
+      throw new Error("Empty response from model");
+    }
+
+    return text.trim();
+  }, onEvent, signal);
+}
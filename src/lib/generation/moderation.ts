@@ -0,0 +1,304 @@
+import { joinHashtags } from "@/lib/hashtags";
+import { screenTexts, type ModerationVerdict } from "@/lib/moderation";
+import type { ChatMessage, ModelProvider } from "@/lib/model-provider";
+import { countGraphemes, trimToLength } from "@/lib/text-length";
+import { resolveMaxChars } from "./input";
+import {
+  inputError,
+  type InputError,
+  type InputErrorCode,
+} from "./input-errors";
+import { parseRewrites, postLength, textBudget } from "./length-limits";
+import { callModel } from "./model-call";
+import type {
+  GenerationEventHandler,
+  GenerationInput,
+  GenerationResult,
+  GenerationSettings,
+  ModerationAction,
+  ResultItem,
+} from "./types";
+
+type ModerationContext = {
+  input: GenerationSettings;
+  provider: ModelProvider;
+  messages: ChatMessage[];
+  raw: string;
+  onEvent?: GenerationEventHandler;
+  signal?: AbortSignal;
+};
+
+/**
+ * Checks user-written text (guidance, refine instructions…) before it
+ * reaches a prompt. Empty values are skipped; the flags of all texts are
+ * merged into one verdict.
+ */
+export async function moderateUserText(
+  texts: Array<string | undefined>,
+): Promise<ModerationVerdict> {
+  const present = texts.filter((text): text is string => Boolean(text?.trim()));
+  const verdicts = await screenTexts(present, "input");
+  const flags = verdicts.flatMap((verdict) => verdict.flags);
+
+  return { flagged: flags.length > 0, flags };
+}
+
+type UserPart = { text: string; error: () => InputError };
+
+/**
+ * Screens user-written parts in one pass. `error` blames the first flagged
+ * part; `moderation` merges the flags of all of them.
+ */
+export async function moderateUserParts(
+  parts: UserPart[],
+): Promise<{ error: InputError | null; moderation: ModerationVerdict }> {
+  const present = parts.filter(({ text }) => text.trim());
+  const verdicts = await screenTexts(
+    present.map(({ text }) => text),
+    "input",
+  );
+  const flaggedIndex = verdicts.findIndex((verdict) => verdict.flagged);
+  const flags = verdicts.flatMap((verdict) => verdict.flags);
+
+  return {
+    error: flaggedIndex === -1 ? null : present[flaggedIndex].error(),
+    moderation: { flagged: flags.length > 0, flags },
+  };
+}
+
+/** Prefixes the error's message, e.g. to name the item. */
+export function numberedError(
+  code: InputErrorCode,
+  label: string,
+  index: number,
+): InputError {
+  const error = inputError(code);
+  return { ...error, message: `${label} ${index + 1}: ${error.message}` };
+}
+
+/** Why a person should answer a comment moderation flagged. */
+function flaggedCommentEscalation({ flags }: ModerationVerdict) {
+  const categories = [...new Set(flags.map((flag) => flag.category))];
+  return `Flagged by content moderation (${categories.join(", ")}).`;
+}
+
+/**
+ * Checks the user-written parts of a run: the guidance, the post of a reply
+ * run and any `extra` parts, which are rejected when flagged. Reply
+ * comments come from other people, so a flagged one is escalated on the
+ * returned `input` instead of failing the run.
+ */
+export async function moderateGenerationInput<T extends GenerationInput>(
+  input: T,
+  extra: UserPart[] = [],
+): Promise<{ error: InputError | null; moderation: ModerationVerdict; input: T }> {
+  const parts: UserPart[] = [
+    { text: input.guidance, error: () => inputError("guidance_flagged") },
+    ...(input.mode === "reply"
+      ? [{ text: input.post, error: () => inputError("post_flagged") }]
+      : []),
+    ...extra,
+  ];
+  const comments = input.mode === "reply" ? input.comments : [];
+  const [checked, commentVerdicts] = await Promise.all([
+    moderateUserParts(parts),
+    screenTexts(comments, "input"),
+  ]);
+
+  const escalations: Record<number, string> = {};
+  commentVerdicts.forEach((verdict, index) => {
+    if (verdict.flagged) escalations[index] = flaggedCommentEscalation(verdict);
+  });
+
+  return {
+    ...checked,
+    input:
+      Object.keys(escalations).length > 0 ? { ...input, escalations } : input,
+  };
+}
+
+function buildSafetyRewriteInstruction(
+  flagged: Array<{ index: number; text: string; categories: string[] }>,
+  limit: number,
+) {
+  return [
+    `Some items break the content guidelines. Rewrite ONLY these items so they are brand-safe, keeping the tone and angle, each at most ${limit} characters.`,
+    "",
+    ...flagged.map(
+      ({ index, text, categories }) =>
+        `- index ${index} (${categories.join(", ")}): ${text}`,
+    ),
+    "",
+    "Output EXACTLY in JSON:",
+    "{",
+    '  "items": [',
+    '    { "index": 0, "text": "safe rewrite" }',
+    "  ]",
+    "}",
+  ].join("\n");
+}
+
+/**
+ * Alt text is screened together with its description, and a carousel
+ * caption with its slide lines.
+ */
+function screenedText(item: ResultItem, text = item.text) {
+  if ("description" in item) return `${text}\n${item.description}`;
+  if ("slides" in item) return [text, ...item.slides].join("\n");
+  return text;
+}
+
+/**
+ * Screens one item as it streams, hashtags included, so flagged copy can be
+ * held back until the finished result is moderated.
+ */
+export async function isStreamedItemFlagged(item: ResultItem) {
+  const tags = "tags" in item ? item.tags : [];
+  const verdicts = await screenTexts([screenedText(item), ...tags], "output");
+  return verdicts.some((verdict) => verdict.flagged);
+}
+
+/**
+ * Screens every item and hashtag of a finished result. Flagged hashtags are
+ * removed; flagged items are rewritten once and dropped if the rewrite is
+ * flagged too. The outcome is reported on the result as `moderation`.
+ */
+export async function enforceModeration(
+  result: GenerationResult,
+  { input, provider, messages, raw, onEvent, signal }: ModerationContext,
+): Promise<GenerationResult> {
+  const items = [...result.items];
+  const actions: ModerationAction[] = [];
+
+  const tagEntries = items.flatMap((item, index) =>
+    "tags" in item ? item.tags.map((tag) => ({ index, tag })) : [],
+  );
+  const verdicts = await screenTexts(
+    [...items.map((item) => screenedText(item)), ...tagEntries.map(({ tag }) => tag)],
+    "output",
+  );
+  const textVerdicts = verdicts.slice(0, items.length);
+  const flaggedTags = tagEntries
+    .map((entry, entryIndex) => ({
+      ...entry,
+      verdict: verdicts[items.length + entryIndex],
+    }))
+    .filter(({ verdict }) => verdict.flagged);
+
+  items.forEach((item, index) => {
+    const removed = flaggedTags.filter((entry) => entry.index === index);
+    if (!("tags" in item) || removed.length === 0) return;
+
+    const removedTags = removed.map(({ tag }) => tag);
+    const tags = item.tags.filter((tag) => !removedTags.includes(tag));
+    items[index] = { ...item, tags, hashtags: joinHashtags(tags) };
+    actions.push({
+      index,
+      action: "hashtags-removed",
+      flags: removed.flatMap(({ verdict }) => verdict.flags),
+      hashtags: removedTags,
+    });
+  });
+
+  const flagged = textVerdicts
+    .map((verdict, index) => ({ index, verdict }))
+    .filter(({ verdict }) => verdict.flagged);
+
+  const dropped = new Set<number>();
+
+  if (flagged.length > 0) {
+    onEvent?.({
+      type: "status",
+      message: `Rewriting ${flagged.length} flagged ${flagged.length === 1 ? "item" : "items"}…`,
+    });
+
+    const limit = resolveMaxChars(input);
+    let rewrites = new Map<number, string>();
+    try {
+      const rewriteRaw = await callModel(
+        provider,
+        [
+          ...messages,
+          { role: "assistant", content: raw },
+          {
+            role: "user",
+            content: buildSafetyRewriteInstruction(
+              flagged.map(({ index, verdict }) => ({
+                index,
+                text: items[index].text,
+                categories: [
+                  ...new Set(verdict.flags.map((flag) => flag.category)),
+                ],
+              })),
+              limit,
+            ),
+          },
+        ],
+        onEvent,
+        signal,
+      );
+      rewrites = parseRewrites(rewriteRaw);
+    } catch {
+      // Items without a usable rewrite are dropped below.
+    }
+
+    const candidates = flagged.map(({ index }) => {
+      const rewrite = rewrites.get(index);
+      const budget = textBudget(input, items[index], limit);
+      return rewrite && countGraphemes(rewrite) > budget
+        ? trimToLength(rewrite, budget)
+        : rewrite;
+    });
+    // Only `text` is rewritten, so an item whose description or slide lines
+    // were flagged fails the recheck and is dropped.
+    const rechecked = flagged
+      .map(({ index }, flaggedIndex) => ({
+        flaggedIndex,
+        text: candidates[flaggedIndex],
+        item: items[index],
+      }))
+      .filter((entry): entry is typeof entry & { text: string } =>
+        Boolean(entry.text),
+      );
+    const recheck = await screenTexts(
+      rechecked.map(({ item, text }) => screenedText(item, text)),
+      "output",
+    );
+
+    flagged.forEach(({ index, verdict }, flaggedIndex) => {
+      const candidate = candidates[flaggedIndex];
+      const position = rechecked.findIndex(
+        (entry) => entry.flaggedIndex === flaggedIndex,
+      );
+
+      if (candidate && position !== -1 && !recheck[position].flagged) {
+        items[index] = { ...items[index], text: candidate };
+        actions.push({ index, action: "regenerated", flags: verdict.flags });
+        return;
+      }
+
+      dropped.add(index);
+      actions.push({ index, action: "dropped", flags: verdict.flags });
+    });
+  }
+
+  const adjustments = result.adjustments
+    ?.filter((entry) => !dropped.has(entry.index))
+    .map((entry) => ({
+      ...entry,
+      // A safety rewrite changes the text after the length was recorded.
+      finalLength: postLength(input, items[entry.index]),
+      index:
+        entry.index - [...dropped].filter((index) => index < entry.index).length,
+    }));
+
+  return {
+    ...result,
+    items: items.filter((_, index) => !dropped.has(index)),
+    ...(adjustments ? { adjustments } : {}),
+    moderation: {
+      verdict: actions.length > 0 ? "revised" : "clean",
+      actions: actions.sort((a, b) => a.index - b.index),
+    },
+  } as GenerationResult;
+}
@@ -0,0 +1,394 @@
+import { joinHashtags, parseHashtags } from "@/lib/hashtags";
+import { countGraphemes, trimToLength } from "@/lib/text-length";
+import type { FallbackTarget } from "./fallback";
+import type {
+  AltTextItem,
+  BioItem,
+  CaptionItem,
+  CarouselItem,
+  GenerationResult,
+  GenerationSettings,
+  Mode,
+  ReplyComment,
+  ReplyItem,
+} from "./types";
+
+export function parseCaptionItem(item: unknown): CaptionItem {
+  const candidate = item as { text?: unknown; hashtags?: unknown } | null;
+
+  if (
+    !candidate ||
+    typeof candidate.text !== "string" ||
+    typeof candidate.hashtags !== "string"
+  ) {
+    throw new Error("Invalid caption item");
+  }
+
+  const tags = parseHashtags(candidate.hashtags);
+
+  return {
+    text: candidate.text.trim(),
+    hashtags: joinHashtags(tags),
+    tags,
+  };
+}
+
+export function parseBioItem(item: unknown): BioItem {
+  const candidate = item as { text?: unknown } | null;
+
+  if (!candidate || typeof candidate.text !== "string") {
+    throw new Error("Invalid bio item");
+  }
+
+  return { text: candidate.text.trim() };
+}
+
+/** Slide lines sit on the images themselves, so they stay short. */
+export const carouselSlideLineMaxChars = 100;
+
+export function parseCarouselItem(item: unknown): CarouselItem {
+  const caption = parseCaptionItem(item);
+  const { slides = [] } = item as { slides?: unknown };
+
+  if (
+    !Array.isArray(slides) ||
+    !slides.every((line) => typeof line === "string")
+  ) {
+    throw new Error("Invalid carousel item");
+  }
+
+  return {
+    ...caption,
+    slides: slides.map((line: string) =>
+      countGraphemes(line.trim()) > carouselSlideLineMaxChars
+        ? trimToLength(line.trim(), carouselSlideLineMaxChars)
+        : line.trim(),
+    ),
+  };
+}
+
+/** Screen readers already announce an image, so the phrase is redundant. */
+const redundantAltPrefix =
+  /^(?:(?:an?|the)\s+)?(?:image|picture|photo(?:graph)?)\s+(?:of|showing)\s+/i;
+
+function stripAltPrefix(text: string) {
+  const stripped = text.trim().replace(redundantAltPrefix, "");
+  return `${stripped.charAt(0).toUpperCase()}${stripped.slice(1)}`;
+}
+
+export function parseAltTextItem(item: unknown): AltTextItem {
+  const candidate = item as { text?: unknown; description?: unknown } | null;
+
+  if (
+    !candidate ||
+    typeof candidate.text !== "string" ||
+    typeof candidate.description !== "string"
+  ) {
+    throw new Error("Invalid alt text item");
+  }
+
+  const text = stripAltPrefix(candidate.text);
+  const description = stripAltPrefix(candidate.description);
+  if (!text || !description) {
+    throw new Error("Invalid alt text item");
+  }
+
+  return { text, description };
+}
+
+export function parseReplyItem(item: unknown): ReplyItem {
+  const candidate = item as { comment?: unknown; text?: unknown } | null;
+
+  if (
+    !candidate ||
+    !Number.isInteger(candidate.comment) ||
+    (candidate.comment as number) < 0 ||
+    typeof candidate.text !== "string" ||
+    !candidate.text.trim()
+  ) {
+    throw new Error("Invalid reply item");
+  }
+
+  return { comment: candidate.comment as number, text: candidate.text.trim() };
+}
+
+/**
+ * Parses the `items` array of a reply, skipping items that fail `parse`.
+ * Extra valid items are dropped; fewer than `count` is an invalid reply.
+ */
+function parseItems<T>(
+  raw: string,
+  count: number,
+  parse: (item: unknown) => T,
+  label: string,
+): T[] {
+  const parsed = JSON.parse(raw) as {
+    items?: unknown[];
+  };
+
+  if (!parsed?.items || !Array.isArray(parsed.items)) {
+    throw new Error(`Invalid ${label} payload`);
+  }
+
+  const items: T[] = [];
+  for (const item of parsed.items) {
+    try {
+      items.push(parse(item));
+    } catch {
+      continue;
+    }
+    if (items.length === count) break;
+  }
+
+  if (items.length < count) {
+    throw new Error(`Invalid ${label} payload`);
+  }
+
+  return items;
+}
+
+export function parseCaptionsPayload(raw: string, count: number) {
+  return parseItems(raw, count, parseCaptionItem, "captions");
+}
+
+export function parseBioPayload(raw: string, count: number) {
+  return parseItems(raw, count, parseBioItem, "bio");
+}
+
+export function parseAltTextPayload(raw: string, count: number) {
+  return parseItems(raw, count, parseAltTextItem, "alt text");
+}
+
+export function parseCarouselPayload(raw: string, count: number) {
+  return parseItems(raw, count, parseCarouselItem, "carousel");
+}
+
+export function parseReplyComment(comment: unknown): ReplyComment {
+  const candidate = comment as { text?: unknown; escalation?: unknown } | null;
+
+  if (!candidate || typeof candidate.text !== "string") {
+    throw new Error("Invalid reply comment");
+  }
+
+  return typeof candidate.escalation === "string" && candidate.escalation
+    ? { text: candidate.text, escalation: candidate.escalation }
+    : { text: candidate.text };
+}
+
+const defaultEscalation = "Flagged for a person to answer.";
+
+/**
+ * Parses comment replies. `escalations` names the comments a person should
+ * answer, on top of those `held` back from the prompt by moderation; every
+ * other comment needs `count` options in `items`, or the payload is
+ * invalid. Options for escalated or unknown comments are dropped.
+ */
+export function parseReplyPayload(
+  raw: string,
+  comments: string[],
+  count: number,
+  held: Record<number, string> = {},
+): { items: ReplyItem[]; comments: ReplyComment[] } {
+  const parsed = JSON.parse(raw) as {
+    items?: unknown[];
+    escalations?: unknown;
+  };
+
+  if (!parsed?.items || !Array.isArray(parsed.items)) {
+    throw new Error("Invalid reply payload");
+  }
+
+  const escalations = new Map<number, string>(
+    Object.entries(held).map(([index, reason]) => [Number(index), reason]),
+  );
+  const escalated = Array.isArray(parsed.escalations)
+    ? parsed.escalations
+    : [];
+  for (const entry of escalated) {
+    const candidate = entry as { comment?: unknown; reason?: unknown } | null;
+    if (
+      !candidate ||
+      !Number.isInteger(candidate.comment) ||
+      escalations.has(candidate.comment as number)
+    ) {
+      continue;
+    }
+
+    const reason =
+      typeof candidate.reason === "string" ? candidate.reason.trim() : "";
+    escalations.set(candidate.comment as number, reason || defaultEscalation);
+  }
+
+  const options = parsed.items.flatMap((entry) => {
+    try {
+      return [parseReplyItem(entry)];
+    } catch {
+      return [];
+    }
+  });
+
+  const items: ReplyItem[] = [];
+  comments.forEach((_, comment) => {
+    if (escalations.has(comment)) return;
+
+    const replies = options
+      .filter((option) => option.comment === comment)
+      .slice(0, count);
+    if (replies.length < count) {
+      throw new Error("Invalid reply payload");
+    }
+    items.push(...replies);
+  });
+
+  return {
+    items,
+    comments: comments.map((text, index) => {
+      const escalation = escalations.get(index);
+      return escalation ? { text, escalation } : { text };
+    }),
+  };
+}
+
+export function parseItem(mode: Mode, item: unknown) {
+  switch (mode) {
+    case "captions":
+      return parseCaptionItem(item);
+    case "bio":
+      return parseBioItem(item);
+    case "alt-text":
+      return parseAltTextItem(item);
+    case "carousel":
+      return parseCarouselItem(item);
+    case "reply":
+      return parseReplyItem(item);
+  }
+}
+
+export function parsePayload(
+  input: GenerationSettings,
+  raw: string,
+): GenerationResult {
+  const count = input.variants;
+
+  switch (input.mode) {
+    case "captions":
+      return { mode: input.mode, items: parseCaptionsPayload(raw, count) };
+    case "bio":
+      return { mode: input.mode, items: parseBioPayload(raw, count) };
+    case "alt-text":
+      return { mode: input.mode, items: parseAltTextPayload(raw, count) };
+    case "carousel":
+      return { mode: input.mode, items: parseCarouselPayload(raw, count) };
+    case "reply":
+      return {
+        mode: input.mode,
+        ...parseReplyPayload(raw, input.comments, count, input.escalations),
+      };
+  }
+}
+
+/** Repeats `lines` as needed to fill `count` slots. */
+function fill<T>(lines: T[], count: number) {
+  return Array.from(
+    { length: count },
+    (_, index) => lines[index % lines.length],
+  );
+}
+
+export function buildFallbackCaptions(count: number): CaptionItem[] {
+  const captions = [
+    {
+      text: "Fresh perspective coming your way—stay tuned for the full story behind this shot.",
+      hashtags: "#behindthescenes #brandmoments #staytuned #socialready #captioncoach #storyteaser #creativepulse #shareworthy",
+    },
+    {
+      text: "Setting the scene with style while we polish the perfect caption for your feed.",
+      hashtags: "#freshcaption #feedgoals #styleinspo #captioncoach #brandvibes #contentcrew #socialspark #stayready",
+    },
+    {
+      text: "A dose of personality is on deck—your tailored caption will land the moment the coach is ready.",
+      hashtags: "#captionscoming #brandvoice #socialenergy #captioncoach #contentmagic #creativeflow #onbrand #watchthisspace",
+    },
+    {
+      text: "We are lining up details that hit the right tone—this placeholder keeps the post warm.",
+      hashtags: "#tonecheck #brandready #captioncoach #socialsuite #creativeprep #marketingmadeeasy #contentqueue #comingsoon",
+    },
+    {
+      text: "This space is saving your prime caption real estate while the coach finalizes the perfect copy.",
+      hashtags: "#captioncoach #socialcaption #brandspotlight #contentstudio #marketingflow #creativeprep #stayposted #copyinprogress",
+    },
+  ];
+
+  return fill(captions, count).map((caption) => parseCaptionItem(caption));
+}
+
+export function buildFallbackBios(count: number): BioItem[] {
+  const bios = [
+    {
+      text: "Creating feel-good moments while celebrating the details that make this story unique.",
+    },
+    {
+      text: "Sharing the highlights with warmth, purpose, and a spark of personality in every line.",
+    },
+    {
+      text: "Telling the brand story with heart, clarity, and a voice that feels true to you.",
+    },
+  ];
+
+  return fill(bios, count);
+}
+
+/**
+ * Unlike captions, placeholder alt text must never be posted as-is: a
+ * made-up description is worse for screen reader users than none.
+ */
+export function buildFallbackAltText(count: number): AltTextItem[] {
+  return fill(
+    [
+      {
+        text: "Image description unavailable",
+        description:
+          "Alt text could not be drafted for this image. Describe the key subjects and any visible text yourself before posting.",
+      },
+    ],
+    count,
+  );
+}
+
+/** Placeholder captions without slide lines, which would describe nothing. */
+export function buildFallbackCarousel(count: number): CarouselItem[] {
+  return buildFallbackCaptions(count).map((caption) => ({
+    ...caption,
+    slides: [],
+  }));
+}
+
+/**
+ * Placeholder replies would answer comments nobody read, so every comment
+ * is escalated instead and no options are offered.
+ */
+export function buildFallbackReplies(comments: string[]): ReplyComment[] {
+  return comments.map((text) => ({
+    text,
+    escalation: "Replies could not be drafted. Answer this comment yourself.",
+  }));
+}
+
+export function buildFallback({
+  mode,
+  variants: count,
+  comments = [],
+}: FallbackTarget): GenerationResult {
+  switch (mode) {
+    case "captions":
+      return { mode, items: buildFallbackCaptions(count) };
+    case "bio":
+      return { mode, items: buildFallbackBios(count) };
+    case "alt-text":
+      return { mode, items: buildFallbackAltText(count) };
+    case "carousel":
+      return { mode, items: buildFallbackCarousel(count) };
+    case "reply":
+      return { mode, items: [], comments: buildFallbackReplies(comments) };
+  }
+}
@@ -0,0 +1,403 @@
+import OpenAI from "openai";
+import { abortReason } from "@/lib/deadline";
+import type { ChatMessage, ModelProvider } from "@/lib/model-provider";
+import {
+  readCachedResult,
+  resultCacheKey,
+  storeCachedResult,
+} from "@/lib/result-cache";
+import {
+  fallbackModeFromEnv,
+  InvalidOutputError,
+  resolveFallback,
+  type FallbackMode,
+  type FallbackResolution,
+  type FallbackTarget,
+} from "./fallback";
+import { createItemStreamParser } from "./item-stream";
+import { enforceHashtagPolicy } from "./hashtag-policy";
+import { enforceLengthLimits } from "./length-limits";
+import { enforceModeration, isStreamedItemFlagged } from "./moderation";
+import { callModel, rateLimitWaitMs, streamModel } from "./model-call";
+import { buildFallback, parseItem, parsePayload } from "./payloads";
+import { buildMessages, buildRetryMessages, promptVersion } from "./prompts";
+import type {
+  FallbackReason,
+  GenerationEventHandler,
+  GenerationInput,
+  GenerationResult,
+  GenerationSettings,
+  ReplyComment,
+  ReplyInput,
+  ResultItem,
+  ResultSource,
+} from "./types";
+
+type RunOptions = {
+  provider: ModelProvider;
+  onEvent?: GenerationEventHandler;
+  /** Cancels model calls and retry waits; see `createRequestSignal`. */
+  signal?: AbortSignal;
+  /** `bypass` skips the cache lookup; the fresh result is still stored. */
+  cache?: "use" | "bypass";
+  /** Defaults to `FALLBACK_MODE`; anything but `placeholder` throws instead. */
+  fallback?: FallbackMode;
+};
+
+export type GenerationRun = {
+  result: GenerationResult;
+  cached: boolean;
+  source: ResultSource;
+  fallbackReason?: FallbackReason;
+};
+
+type Generated = {
+  result: GenerationResult;
+  cacheable: boolean;
+  fallbackReason?: FallbackReason;
+};
+
+/** The comments of a reply run, with those moderation escalated marked. */
+function replyComments(input: ReplyInput): ReplyComment[] {
+  return input.comments.map((text, index) => {
+    const escalation = input.escalations?.[index];
+    return escalation ? { text, escalation } : { text };
+  });
+}
+
+/**
+ * Items are screened before they are sent, and flagged ones held back; the
+ * rest are numbered in the order they are shown. Length limits and the
+ * hashtag policy only apply to the `done` result.
+ */
+async function requestStreamed(
+  input: GenerationInput,
+  provider: ModelProvider,
+  messages: ChatMessage[],
+  onEvent: GenerationEventHandler,
+  streamed: ResultItem[],
+  signal?: AbortSignal,
+) {
+  let parser: ReturnType<typeof createItemStreamParser> | null = null;
+  let screening = Promise.resolve();
+  // Screening outlives an attempt; a stale one must not show its items.
+  let attempt = 0;
+  const expected =
+    input.mode === "reply"
+      ? replyComments(input).filter((comment) => !comment.escalation).length *
+        input.variants
+      : input.variants;
+
+  try {
+    const raw = await streamModel(
+      provider,
+      messages,
+      {
+        onAttempt() {
+          streamed.length = 0;
+          attempt += 1;
+          const current = attempt;
+          let shown = 0;
+
+          parser = createItemStreamParser((value, index) => {
+            // Only the requested number of items is shown as it streams.
+            if (index >= expected) return;
+
+            const item = parseItem(input.mode, value);
+            streamed.push(item);
+            screening = screening.then(async () => {
+              const flagged = await isStreamedItemFlagged(item);
+              if (flagged || current !== attempt) return;
+              onEvent({ type: "item", index: shown, item });
+              shown += 1;
+            });
+          });
+        },
+        onDelta(delta) {
+          parser?.push(delta);
+        },
+      },
+      onEvent,
+      signal,
+    );
+    await screening;
+    return raw;
+  } finally {
+    attempt += 1;
+  }
+}
+
+/** What a run drafts from besides its settings: images, or post and comments. */
+function sourceKey(input: GenerationInput) {
+  switch (input.mode) {
+    case "bio":
+      return null;
+    case "carousel":
+      return [input.slideLines, ...input.images.map((image) => image.hash)];
+    case "reply":
+      return [
+        input.post,
+        input.comments,
+        input.escalations ?? null,
+        input.image?.hash ?? null,
+      ];
+    default:
+      return input.image.hash;
+  }
+}
+
+function generationCacheKey(input: GenerationInput, provider: ModelProvider) {
+  return resultCacheKey([
+    promptVersion,
+    provider.id,
+    provider.model,
+    input.mode,
+    input.tone,
+    input.guidance,
+    input.maxChars ?? null,
+    input.variants,
+    input.platform,
+    input.language,
+    input.brandVoice ?? null,
+    input.customTone ?? null,
+    sourceKey(input),
+  ]);
+}
+
+/**
+ * Serves a repeated request from the result cache, or generates and caches
+ * it. Placeholder copy and partial results are never cached.
+ */
+export async function runGeneration(
+  input: GenerationInput,
+  options: RunOptions,
+): Promise<GenerationRun> {
+  const key = generationCacheKey(input, options.provider);
+
+  if (options.cache !== "bypass") {
+    const hit = await readCachedResult(key);
+    if (hit) {
+      return { result: hit, cached: true, source: "cache" };
+    }
+  }
+
+  const { result, cacheable, fallbackReason } = await generate(
+    input,
+    options,
+  );
+  if (cacheable) {
+    await storeCachedResult(key, result);
+  }
+
+  return fallbackReason
+    ? { result, cached: false, source: "fallback", fallbackReason }
+    : { result, cached: false, source: "model" };
+}
+
+async function generate(
+  input: GenerationInput,
+  { provider, onEvent, signal, fallback = fallbackModeFromEnv() }: RunOptions,
+): Promise<Generated> {
+  if (input.mode === "reply") {
+    const comments = replyComments(input);
+    // Nothing is left to answer once moderation escalated every comment.
+    if (comments.every((comment) => comment.escalation)) {
+      return { result: { mode: "reply", items: [], comments }, cacheable: true };
+    }
+  }
+
+  const messages = buildMessages(input);
+  const streamed: ResultItem[] = [];
+
+  // Resolves to null when the deadline passes after some items have already
+  // reached the client, so the run can finish with those instead of failing.
+  const request = async (attempt: ChatMessage[]) => {
+    try {
+      return onEvent
+        ? await requestStreamed(
+            input,
+            provider,
+            attempt,
+            onEvent,
+            streamed,
+            signal,
+          )
+        : await callModel(provider, attempt, undefined, signal);
+    } catch (error) {
+      if (abortReason(signal) === "timeout" && streamed.length > 0) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const keepStreamed = async (): Promise<Generated> => {
+    const items = [...streamed];
+    const comments =
+      input.mode === "reply" ? { comments: replyComments(input) } : {};
+    const finished = await finalizeResult(
+      { mode: input.mode, items, ...comments } as GenerationResult,
+      {
+        input,
+        provider,
+        messages,
+        raw: JSON.stringify({ items }),
+        onEvent,
+        signal,
+      },
+    );
+    return { result: { ...finished, partial: true }, cacheable: false };
+  };
+
+  let raw = await request(messages);
+  if (raw === null) return keepStreamed();
+
+  let result: GenerationResult;
+
+  try {
+    result = parsePayload(input, raw);
+  } catch {
+    onEvent?.({ type: "reset", reason: "invalid_json" });
+
+    try {
+      const retried = await request(buildRetryMessages(input, messages, raw));
+      if (retried === null) return keepStreamed();
+
+      raw = retried;
+      result = parsePayload(input, raw);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      if (fallback !== "placeholder") throw new InvalidOutputError();
+
+      onEvent?.({ type: "fallback", reason: "invalid_json" });
+      return {
+        result: buildFallback(input),
+        cacheable: false,
+        fallbackReason: "invalid_json",
+      };
+    }
+  }
+
+  // Should the deadline pass during these stages, their model calls fail
+  // fast and each one settles for its local fix; that result is not cached.
+  const finished = await finalizeResult(result, {
+    input,
+    provider,
+    messages,
+    raw,
+    onEvent,
+    signal,
+  });
+  return { result: finished, cacheable: !signal?.aborted };
+}
+
+type FinalizeContext = {
+  input: GenerationSettings;
+  provider: ModelProvider;
+  messages: ChatMessage[];
+  raw: string;
+  onEvent?: GenerationEventHandler;
+  signal?: AbortSignal;
+  /** Hashtags used by items outside this result. */
+  reservedTags?: string[];
+  /** False when the items are alternatives for one slot, not a set. */
+  itemsAreAlternatives?: boolean;
+};
+
+/**
+ * Post-processing shared by every flow that produces items: the hashtag
+ * policy for captions and carousels, character limits, and moderation of the
+ * final copy. Limits run after the policy so a top-up cannot push a
+ * shared-limit hashtag line back over them.
+ */
+export async function finalizeResult(
+  result: GenerationResult,
+  context: FinalizeContext,
+): Promise<GenerationResult> {
+  const { input, reservedTags, itemsAreAlternatives } = context;
+  let finished = result;
+
+  if (finished.mode === "captions" || finished.mode === "carousel") {
+    const policyContext = {
+      ...context,
+      input,
+      reserved: reservedTags,
+      dedupeAcross: !itemsAreAlternatives,
+    };
+    finished =
+      finished.mode === "captions"
+        ? {
+            ...finished,
+            items: await enforceHashtagPolicy(finished.items, policyContext),
+          }
+        : {
+            ...finished,
+            items: await enforceHashtagPolicy(finished.items, policyContext),
+          };
+  }
+
+  finished = await enforceLengthLimits(finished, context);
+  return enforceModeration(finished, context);
+}
+
+type ErrorResolution =
+  | FallbackResolution
+  | {
+      status: number;
+      body: { error: string };
+      reason: "timeout" | "cancelled" | "credentials";
+      headers?: never;
+    };
+
+/**
+ * Maps a failure from the generation pipeline to the response the client
+ * should see. Given a `target` (usually the run's input), rate limits,
+ * unusable output and unexpected errors are handled per `FALLBACK_MODE` (see
+ * `resolveFallback`); credential problems, deadlines and cancellations are
+ * always errors. Pass the run's `signal` so an abort is reported as such.
+ */
+export function resolveGenerationError(
+  error: unknown,
+  target: FallbackTarget | null,
+  signal?: AbortSignal,
+): ErrorResolution {
+  const aborted = abortReason(signal);
+
+  if (aborted === "timeout") {
+    return {
+      status: 504,
+      body: { error: "Generation took too long. Please try again." },
+      reason: "timeout",
+    };
+  }
+
+  if (aborted === "cancelled") {
+    return {
+      status: 499,
+      body: { error: "Request cancelled." },
+      reason: "cancelled",
+    };
+  }
+
+  if (error instanceof InvalidOutputError) {
+    return resolveFallback(target, "invalid_json");
+  }
+
+  if (error instanceof OpenAI.APIError) {
+    if (error.status === 429) {
+      return resolveFallback(target, "rate_limited", {
+        retryAfter: Math.ceil((rateLimitWaitMs(error) ?? 0) / 1000),
+      });
+    }
+
+    if (error.status === 401 || error.status === 403) {
+      return {
+        status: 500,
+        body: { error: "Check your model provider credentials." },
+        reason: "credentials",
+      };
+    }
+  }
+
+  return resolveFallback(target, "error");
+}
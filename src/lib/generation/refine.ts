@@ -0,0 +1,281 @@
+import type { ChatMessage, ModelProvider } from "@/lib/model-provider";
+import { getPlatformPreset } from "@/lib/platforms";
+import { resolveMaxChars } from "./input";
+import { invalid, type Checked } from "./input-errors";
+import { callModel } from "./model-call";
+import { parseItem } from "./payloads";
+import { finalizeResult } from "./pipeline";
+import { buildMessages, buildRetryMessages } from "./prompts";
+import type {
+  GenerationInput,
+  GenerationResult,
+  Mode,
+  ResultItem,
+} from "./types";
+
+export type RefinePreset =
+  | "shorter"
+  | "punchier"
+  | "add-cta"
+  | "less-formal"
+  | "regenerate";
+
+export type RefineRequest = {
+  item: ResultItem;
+  preset?: RefinePreset;
+  instruction?: string;
+  /** The other items in the set, which revisions must stay distinct from. */
+  others: ResultItem[];
+  count: number;
+};
+
+export const refinePresets: Record<RefinePreset, string> = {
+  shorter: "Make it noticeably shorter while keeping the core idea.",
+  punchier: "Make it punchier: stronger verbs, tighter rhythm, a sharper hook.",
+  "add-cta": "Add a clear, natural call to action.",
+  "less-formal": "Make it less formal and more conversational.",
+  regenerate:
+    "Write a completely new alternative with a different angle from every existing item.",
+};
+
+export const maxRefineInstructionLength = 200;
+export const maxRefineCount = 5;
+
+const refinePresetIds = Object.keys(refinePresets) as RefinePreset[];
+const maxOtherItems = 10;
+
+function readJsonField(formData: FormData, name: string) {
+  const raw = formData.get(name);
+  if (typeof raw !== "string" || raw.length === 0) return undefined;
+
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the refinement-specific fields; the generation context (tone, image,
+ * platform…) is read separately with `readGenerationInput`.
+ */
+export function readRefineRequest(
+  formData: FormData,
+  mode: GenerationInput["mode"],
+): Checked<RefineRequest> {
+  const presetRaw = formData.get("preset");
+  const preset =
+    typeof presetRaw === "string" && presetRaw.length > 0
+      ? presetRaw
+      : undefined;
+  if (preset && !refinePresetIds.includes(preset as RefinePreset)) {
+    return invalid("preset_invalid", { allowed: refinePresetIds });
+  }
+
+  const instructionRaw = formData.get("instruction");
+  const instruction =
+    typeof instructionRaw === "string" ? instructionRaw.trim() : "";
+  if (instruction.length > maxRefineInstructionLength) {
+    return invalid("instruction_too_long", {
+      max: maxRefineInstructionLength,
+    });
+  }
+
+  if (!preset && !instruction) {
+    return invalid("instruction_missing");
+  }
+
+  const countRaw = formData.get("count");
+  const count =
+    typeof countRaw === "string" && countRaw.length > 0
+      ? Number(countRaw)
+      : preset === "regenerate"
+        ? 1
+        : 3;
+  if (!Number.isInteger(count) || count < 1 || count > maxRefineCount) {
+    return invalid("count_invalid", { min: 1, max: maxRefineCount });
+  }
+
+  let item: ResultItem;
+  try {
+    item = parseItem(mode, readJsonField(formData, "item"));
+  } catch {
+    return invalid("item_invalid");
+  }
+
+  let others: ResultItem[];
+  try {
+    const othersRaw = readJsonField(formData, "others") ?? [];
+    if (!Array.isArray(othersRaw) || othersRaw.length > maxOtherItems) {
+      throw new Error("Invalid others");
+    }
+    others = othersRaw.map((other) => parseItem(mode, other));
+  } catch {
+    return invalid("others_invalid", { max: maxOtherItems });
+  }
+
+  return {
+    ok: true,
+    value: {
+      item,
+      preset: preset as RefinePreset | undefined,
+      instruction: instruction || undefined,
+      others,
+      count,
+    },
+  };
+}
+
+function describeItem(item: ResultItem) {
+  if ("slides" in item) {
+    return [
+      item.text,
+      ...item.slides.map((line, slide) => `Slide ${slide + 1}: ${line}`),
+      item.hashtags,
+    ].join("\n");
+  }
+  if ("hashtags" in item) return `${item.text}\n${item.hashtags}`;
+  if ("description" in item) return `${item.text}\n${item.description}`;
+  if ("comment" in item) return `Reply to comment ${item.comment}: ${item.text}`;
+  return item.text;
+}
+
+const refineExamples: Record<Mode, { noun: string; example: string }> = {
+  captions: {
+    noun: "caption",
+    example: '{ "text": "revised caption", "hashtags": "#tag1 #tag2 ..." }',
+  },
+  bio: { noun: "bio", example: '{ "text": "revised bio" }' },
+  "alt-text": {
+    noun: "alt text",
+    example:
+      '{ "text": "revised alt text", "description": "revised description" }',
+  },
+  carousel: {
+    noun: "carousel caption",
+    example:
+      '{ "text": "revised caption", "slides": ["slide 1", "..."], "hashtags": "#tag1 #tag2 ..." }',
+  },
+  reply: {
+    noun: "comment reply",
+    example: '{ "comment": 0, "text": "revised reply" }',
+  },
+};
+
+function buildRefineInstruction(
+  input: GenerationInput,
+  request: RefineRequest,
+) {
+  const directions = [
+    request.preset ? refinePresets[request.preset] : null,
+    request.instruction ? `User request: ${request.instruction}` : null,
+  ].filter(Boolean);
+  const { noun, example } = refineExamples[input.mode];
+
+  return [
+    `Task: Revise ONE ${noun} from the set. Return exactly ${request.count} revised ${request.count === 1 ? "version" : "versions"}, each a different take.`,
+    "",
+    "Item to revise:",
+    describeItem(request.item),
+    "",
+    "Direction:",
+    ...directions.map((direction) => `- ${direction}`),
+    "",
+    "Keep every original parameter and constraint. Never exceed Max characters" +
+      ` (${resolveMaxChars(input)}).`,
+    ...("hashtags" in request.item &&
+    getPlatformPreset(input.platform).hashtagsShareLimit
+      ? [
+          "Hashtags count toward that limit here: caption, blank line and hashtag line together must fit within it.",
+        ]
+      : []),
+    ...(request.others.length > 0
+      ? [
+          "Stay clearly distinct from the other items in the set:",
+          ...request.others.map((other) => `- ${other.text}`),
+        ]
+      : []),
+    "",
+    "Output EXACTLY in JSON:",
+    "{",
+    '  "items": [',
+    `    ${example}`,
+    "  ]",
+    "}",
+  ].join("\n");
+}
+
+function parseRevisions(input: GenerationInput, raw: string, count: number) {
+  const parsed = JSON.parse(raw) as { items?: unknown };
+  if (!Array.isArray(parsed?.items)) {
+    throw new Error("Invalid refine payload");
+  }
+
+  const revisions: ResultItem[] = [];
+  for (const entry of parsed.items) {
+    try {
+      revisions.push(parseItem(input.mode, entry));
+    } catch {
+      continue;
+    }
+  }
+
+  if (revisions.length === 0) {
+    throw new Error("Invalid refine payload");
+  }
+
+  return revisions.slice(0, count);
+}
+
+/**
+ * Revises a single item. The original prompt, image included, is replayed so
+ * the model keeps the same context; the revisions then go through the same
+ * length and hashtag enforcement as a full set.
+ */
+export async function runRefinement(
+  input: GenerationInput,
+  request: RefineRequest,
+  { provider, signal }: { provider: ModelProvider; signal?: AbortSignal },
+): Promise<GenerationResult> {
+  const messages: ChatMessage[] = [
+    ...buildMessages(input),
+    {
+      role: "assistant",
+      content: JSON.stringify({ items: [...request.others, request.item] }),
+    },
+    { role: "user", content: buildRefineInstruction(input, request) },
+  ];
+
+  let raw = await callModel(provider, messages, undefined, signal);
+  let items: ResultItem[];
+
+  try {
+    items = parseRevisions(input, raw, request.count);
+  } catch {
+    raw = await callModel(
+      provider,
+      buildRetryMessages(input, messages, raw),
+      undefined,
+      signal,
+    );
+    items = parseRevisions(input, raw, request.count);
+  }
+
+  // A revision answers the same comment as the reply it replaces.
+  const { item } = request;
+  if ("comment" in item) {
+    items = items.map((revision) => ({ ...revision, comment: item.comment }));
+  }
+
+  return finalizeResult({ mode: input.mode, items } as GenerationResult, {
+    input,
+    provider,
+    messages,
+    raw,
+    signal,
+    reservedTags: request.others.flatMap((other) =>
+      "tags" in other ? other.tags : [],
+    ),
+    itemsAreAlternatives: true,
+  });
+}
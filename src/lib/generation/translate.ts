@@ -0,0 +1,150 @@
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { isLanguageId, languages, type LanguageId } from "@/lib/languages";
+import type { ModelProvider } from "@/lib/model-provider";
+import { invalid, type Checked } from "./input-errors";
+import { callModel } from "./model-call";
+import { parseItem } from "./payloads";
+import { finalizeResult } from "./pipeline";
+import { buildRetryMessages, buildTranslationMessages } from "./prompts";
+import type {
+  GenerationResult,
+  GenerationSettings,
+  Mode,
+  ResultItem,
+} from "./types";
+
+export type TranslateRequest = {
+  items: ResultItem[];
+  targets: LanguageId[];
+};
+
+export type TranslatedSet = {
+  language: LanguageId;
+  result: GenerationResult;
+};
+
+const maxTranslateItems = 10;
+const translateConcurrency = 2;
+
+/**
+ * Reads the set to translate (`items`, JSON) and the repeated `targets`
+ * field. The source language is the `language` of the generation settings.
+ */
+export function readTranslateRequest(
+  formData: FormData,
+  mode: Mode,
+  source: LanguageId,
+): Checked<TranslateRequest> {
+  const targets = formData.getAll("targets");
+  if (
+    targets.length === 0 ||
+    targets.length >= languages.length ||
+    new Set(targets).size !== targets.length ||
+    !targets.every((target) => isLanguageId(target) && target !== source)
+  ) {
+    return invalid("targets_invalid", { min: 1, max: languages.length - 1 });
+  }
+
+  const itemsError = invalid<TranslateRequest>("items_invalid", {
+    min: 1,
+    max: maxTranslateItems,
+  });
+  const itemsRaw = formData.get("items");
+  if (typeof itemsRaw !== "string") return itemsError;
+
+  try {
+    const parsed = JSON.parse(itemsRaw) as unknown;
+    if (
+      !Array.isArray(parsed) ||
+      parsed.length === 0 ||
+      parsed.length > maxTranslateItems
+    ) {
+      return itemsError;
+    }
+
+    return {
+      ok: true,
+      value: {
+        items: parsed.map((item) => parseItem(mode, item)),
+        targets: targets as LanguageId[],
+      },
+    };
+  } catch {
+    return itemsError;
+  }
+}
+
+function parseTranslation(mode: Mode, raw: string, expected: number) {
+  const parsed = JSON.parse(raw) as { items?: unknown };
+  if (!Array.isArray(parsed?.items) || parsed.items.length !== expected) {
+    throw new Error("Invalid translation payload");
+  }
+
+  return {
+    mode,
+    items: parsed.items.map((item) => parseItem(mode, item)),
+  } as GenerationResult;
+}
+
+async function translateInto(
+  settings: GenerationSettings,
+  items: TranslateRequest["items"],
+  target: LanguageId,
+  provider: ModelProvider,
+  signal?: AbortSignal,
+): Promise<GenerationResult> {
+  const messages = buildTranslationMessages(
+    settings,
+    items,
+    settings.language,
+    target,
+  );
+
+  let raw = await callModel(provider, messages, undefined, signal);
+  let result: GenerationResult;
+
+  try {
+    result = parseTranslation(settings.mode, raw, items.length);
+  } catch {
+    raw = await callModel(
+      provider,
+      buildRetryMessages(settings, messages, raw),
+      undefined,
+      signal,
+    );
+    result = parseTranslation(settings.mode, raw, items.length);
+  }
+
+  return finalizeResult(result, {
+    input: { ...settings, language: target },
+    provider,
+    messages,
+    raw,
+    signal,
+  });
+}
+
+/**
+ * Translates an existing set into each target language. Every translation
+ * goes through the same length and hashtag enforcement as a fresh run; one
+ * failed language fails the whole request.
+ */
+export async function runTranslation(
+  settings: GenerationSettings,
+  { items, targets }: TranslateRequest,
+  { provider, signal }: { provider: ModelProvider; signal?: AbortSignal },
+): Promise<TranslatedSet[]> {
+  const outcomes = await mapWithConcurrency(
+    targets,
+    translateConcurrency,
+    (target) => translateInto(settings, items, target, provider, signal),
+  );
+
+  return outcomes.map((outcome, index) => {
+    if (!outcome.ok) {
+      throw outcome.error;
+    }
+
+    return { language: targets[index], result: outcome.value };
+  });
+}
@@ -0,0 +1,189 @@
+import type { BrandVoice } from "@/lib/brand-voices";
+import type { CustomTone } from "@/lib/custom-tones";
+import type { LanguageId } from "@/lib/languages";
+import type { ModerationFlag } from "@/lib/moderation";
+import type { PlatformId } from "@/lib/platforms";
+
+export type Mode = "captions" | "bio" | "alt-text" | "carousel" | "reply";
+export type BuiltInTone = "funny" | "poetic" | "classy" | "branded";
+/** A built-in tone or the id of a custom tone. */
+export type Tone = string;
+
+export type CaptionItem = { text: string; hashtags: string; tags: string[] };
+export type BioItem = { text: string };
+/** `text` is the short alt attribute; `description` the long description. */
+export type AltTextItem = { text: string; description: string };
+/**
+ * One caption and hashtag set for a whole carousel; `slides` holds a line
+ * per image, in upload order, or is empty when slide lines are off.
+ */
+export type CarouselItem = CaptionItem & { slides: string[] };
+/** One reply option; `comment` is the index of the comment it answers. */
+export type ReplyItem = { comment: number; text: string };
+/**
+ * A comment as the run saw it. `escalation` says why a person should answer
+ * it instead; escalated comments get no reply options.
+ */
+export type ReplyComment = { text: string; escalation?: string };
+export type ResultItem =
+  | CaptionItem
+  | BioItem
+  | AltTextItem
+  | CarouselItem
+  | ReplyItem;
+
+export type CaptionsInput = {
+  mode: "captions";
+  tone: Tone;
+  guidance: string;
+  maxChars?: number;
+  /** How many items to draft; see `variantBounds`. */
+  variants: number;
+  platform: PlatformId;
+  language: LanguageId;
+  brandVoice?: BrandVoice;
+  /** Set when `tone` is a custom tone's id. */
+  customTone?: CustomTone;
+  image: { type: string; dataUrl: string; hash: string };
+};
+
+export type BioInput = {
+  mode: "bio";
+  tone: Tone;
+  guidance: string;
+  maxChars?: number;
+  variants: number;
+  platform: PlatformId;
+  language: LanguageId;
+  brandVoice?: BrandVoice;
+  customTone?: CustomTone;
+};
+
+/** `tone` is not used for alt text; it is kept so every mode has one. */
+export type AltTextInput = Omit<CaptionsInput, "mode"> & { mode: "alt-text" };
+
+/** The images are ordered as the slides of the post. */
+export type CarouselInput = Omit<CaptionsInput, "mode" | "image"> & {
+  mode: "carousel";
+  slideLines: boolean;
+  images: Array<CaptionsInput["image"]>;
+};
+
+/**
+ * `post` is the caption the comments were left under and `image` the
+ * optional post image; `variants` counts reply options per comment.
+ * `escalations` holds, by comment index, why moderation escalated a comment
+ * before generation; those comments never reach the prompt.
+ */
+export type ReplyInput = Omit<CaptionsInput, "mode" | "image"> & {
+  mode: "reply";
+  post: string;
+  comments: string[];
+  escalations?: Record<number, string>;
+  image?: CaptionsInput["image"];
+};
+
+export type GenerationInput =
+  | CaptionsInput
+  | BioInput
+  | AltTextInput
+  | CarouselInput
+  | ReplyInput;
+
+/** The parameters of a run without its source images. */
+export type GenerationSettings =
+  | Omit<CaptionsInput, "image">
+  | BioInput
+  | Omit<AltTextInput, "image">
+  | Omit<CarouselInput, "images">
+  | Omit<ReplyInput, "image">;
+
+export type LengthAdjustment = {
+  index: number;
+  action: "regenerated" | "trimmed";
+  originalLength: number;
+  finalLength: number;
+};
+
+/** `index` is the item's position before any flagged items were dropped. */
+export type ModerationAction = {
+  index: number;
+  action: "regenerated" | "dropped" | "hashtags-removed";
+  flags: ModerationFlag[];
+  hashtags?: string[];
+};
+
+export type OutputModeration = {
+  verdict: "clean" | "revised";
+  actions: ModerationAction[];
+};
+
+/**
+ * `partial` is set when the deadline passed mid-stream and the result holds
+ * only the items that had finished by then.
+ */
+export type GenerationResult =
+  | {
+      mode: "captions";
+      items: CaptionItem[];
+      adjustments?: LengthAdjustment[];
+      moderation?: OutputModeration;
+      partial?: boolean;
+    }
+  | {
+      mode: "bio";
+      items: BioItem[];
+      adjustments?: LengthAdjustment[];
+      moderation?: OutputModeration;
+      partial?: boolean;
+    }
+  | {
+      mode: "alt-text";
+      items: AltTextItem[];
+      adjustments?: LengthAdjustment[];
+      moderation?: OutputModeration;
+      partial?: boolean;
+    }
+  | {
+      mode: "carousel";
+      items: CarouselItem[];
+      adjustments?: LengthAdjustment[];
+      moderation?: OutputModeration;
+      partial?: boolean;
+    }
+  | {
+      mode: "reply";
+      items: ReplyItem[];
+      /** Missing on refinements and translations, which only revise replies. */
+      comments?: ReplyComment[];
+      adjustments?: LengthAdjustment[];
+      moderation?: OutputModeration;
+      partial?: boolean;
+    };
+
+/** Where a response's items came from; `fallback` items are placeholder copy. */
+export type ResultSource = "model" | "cache" | "fallback";
+
+export type FallbackReason =
+  | "not_configured"
+  | "invalid_json"
+  | "rate_limited"
+  | "error";
+
+export type GenerationEvent =
+  | { type: "status"; message: string }
+  | { type: "retry"; attempt: number; waitMs: number; reason: string }
+  | { type: "item"; index: number; item: ResultItem }
+  | { type: "reset"; reason: string }
+  | { type: "fallback"; reason: FallbackReason }
+  | {
+      type: "done";
+      result: GenerationResult;
+      historyId?: string | null;
+      cached?: boolean;
+      source?: ResultSource;
+      fallbackReason?: FallbackReason;
+    }
+  | { type: "error"; error: string; status: number; requestId?: string };
+
+export type GenerationEventHandler = (event: GenerationEvent) => void;
@@ -0,0 +1,56 @@
+import { readPositiveInt } from "@/lib/env";
+import type { Mode } from "./types";
+
+export type VariantBounds = { min: number; max: number; default: number };
+
+/** Refinement and translation accept sets up to this size. */
+export const maxVariantCount = 10;
+
+const defaultBounds: Record<Mode, VariantBounds> = {
+  captions: { min: 1, max: maxVariantCount, default: 5 },
+  bio: { min: 1, max: 5, default: 3 },
+  "alt-text": { min: 1, max: 3, default: 1 },
+  carousel: { min: 1, max: 5, default: 3 },
+  reply: { min: 1, max: 5, default: 3 },
+};
+
+const envPrefix: Record<Mode, string> = {
+  captions: "CAPTION_VARIANTS",
+  bio: "BIO_VARIANTS",
+  "alt-text": "ALT_TEXT_VARIANTS",
+  carousel: "CAROUSEL_VARIANTS",
+  reply: "REPLY_VARIANTS",
+};
+
+/**
+ * How many variants a caller may ask for in `mode`
+ * (`CAPTION_VARIANTS_MIN`/`_MAX`, `BIO_VARIANTS_MIN`/`_MAX`,
+ * `ALT_TEXT_VARIANTS_MIN`/`_MAX`, `CAROUSEL_VARIANTS_MIN`/`_MAX`,
+ * `REPLY_VARIANTS_MIN`/`_MAX`). For replies the count is per comment. The
+ * default count is clamped into the configured range.
+ */
+export function variantBounds(mode: Mode): VariantBounds {
+  const defaults = defaultBounds[mode];
+  const prefix = envPrefix[mode];
+
+  const max = Math.min(
+    readPositiveInt(process.env[`${prefix}_MAX`], defaults.max),
+    maxVariantCount,
+  );
+  const min = Math.min(
+    readPositiveInt(process.env[`${prefix}_MIN`], defaults.min),
+    max,
+  );
+
+  return { min, max, default: Math.min(Math.max(defaults.default, min), max) };
+}
+
+export function variantBoundsFromEnv(): Record<Mode, VariantBounds> {
+  return {
+    captions: variantBounds("captions"),
+    bio: variantBounds("bio"),
+    "alt-text": variantBounds("alt-text"),
+    carousel: variantBounds("carousel"),
+    reply: variantBounds("reply"),
+  };
+}
@@ -0,0 +1,56 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { normalizeHashtag } from "@/lib/hashtags";
+
+type BlocklistFile = {
+  banned?: unknown;
+  shadowbanned?: unknown;
+};
+
+const defaultBlocklistPath = path.join(
+  process.cwd(),
+  "config",
+  "hashtag-blocklist.json",
+);
+
+let cached: { path: string; tags: Set<string> } | null = null;
+
+function collect(target: Set<string>, values: unknown) {
+  if (!Array.isArray(values)) return;
+
+  for (const value of values) {
+    if (typeof value !== "string") continue;
+    const tag = normalizeHashtag(value);
+    if (tag) target.add(tag);
+  }
+}
+
+/**
+ * Loads the banned and shadowbanned tags from `HASHTAG_BLOCKLIST_PATH`, or
+ * `config/hashtag-blocklist.json` by default. A missing file means an empty
+ * list; a malformed one is an error.
+ */
+export async function loadHashtagBlocklist() {
+  const filePath = process.env.HASHTAG_BLOCKLIST_PATH || defaultBlocklistPath;
+
+  if (cached?.path === filePath) {
+    return cached.tags;
+  }
+
+  const tags = new Set<string>();
+
+  try {
+    const contents = JSON.parse(
+      await readFile(filePath, "utf8"),
+    ) as BlocklistFile;
+    collect(tags, contents.banned);
+    collect(tags, contents.shadowbanned);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+
+  cached = { path: filePath, tags };
+  return tags;
+}
@@ -0,0 +1,83 @@
+export type HashtagPolicy = {
+  min: number;
+  max: number;
+  blocked: ReadonlySet<string>;
+  /** Tags already taken elsewhere, e.g. by captions that are not being redone. */
+  reserved?: ReadonlySet<string>;
+  /** Set to false when the sets are alternatives for the same slot. */
+  dedupeAcross?: boolean;
+};
+
+const tagSeparators = /[\s,#]+/;
+const invalidTagCharacters = /[^\p{L}\p{M}\p{N}_]/gu;
+const maxTagLength = 60;
+
+/**
+ * Lowercases a single tag and strips everything the networks reject, so
+ * "#Summer-Vibes!" becomes "summervibes". Returns null for tags that end up
+ * empty, numeric-only or absurdly long.
+ */
+export function normalizeHashtag(raw: string) {
+  const tag = raw
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(invalidTagCharacters, "");
+
+  if (!tag || /^\d+$/.test(tag) || tag.length > maxTagLength) {
+    return null;
+  }
+
+  return tag;
+}
+
+/** Splits a free-form hashtag line into unique, normalized tags without `#`. */
+export function parseHashtags(raw: string) {
+  const tags: string[] = [];
+
+  for (const token of raw.split(tagSeparators)) {
+    const tag = normalizeHashtag(token);
+    if (tag && !tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+
+  return tags;
+}
+
+export function joinHashtags(tags: string[]) {
+  return tags.map((tag) => `#${tag}`).join(" ");
+}
+
+/**
+ * Applies the policy to every caption's tags in order: blocked tags are
+ * removed, a tag already used by an earlier caption (or reserved) is dropped,
+ * and each set is capped at `max`. Indices of sets left below `min` are
+ * reported so the caller can top them up.
+ */
+export function applyHashtagPolicy(tagSets: string[][], policy: HashtagPolicy) {
+  const used = new Set<string>(policy.reserved);
+  const shortfalls: number[] = [];
+
+  const tags = tagSets.map((set, index) => {
+    const kept: string[] = [];
+    const seen =
+      policy.dedupeAcross === false ? new Set<string>(policy.reserved) : used;
+
+    for (const tag of set) {
+      if (kept.length >= policy.max) break;
+      if (policy.blocked.has(tag) || seen.has(tag)) continue;
+
+      kept.push(tag);
+      seen.add(tag);
+      used.add(tag);
+    }
+
+    if (kept.length < policy.min) {
+      shortfalls.push(index);
+    }
+
+    return kept;
+  });
+
+  return { tags, shortfalls, used };
+}
@@ -0,0 +1,52 @@
+import { readPositiveInt } from "@/lib/env";
+import type { GenerationInput, GenerationResult } from "@/lib/generation/types";
+import type { HistoryEntry } from "@/lib/history";
+import { createJsonCollection } from "@/lib/json-store";
+
+const defaultHistoryLimit = 200;
+
+export const historyStore = createJsonCollection<HistoryEntry>("history.json");
+
+function historyLimit() {
+  return readPositiveInt(process.env.HISTORY_LIMIT, defaultHistoryLimit);
+}
+
+/**
+ * Saves a finished generation and prunes the oldest entries beyond
+ * `HISTORY_LIMIT`. Failures are logged rather than thrown so a full disk
+ * never costs the user their result.
+ */
+export async function recordHistory(
+  input: GenerationInput,
+  result: GenerationResult,
+) {
+  try {
+    const entry = await historyStore.create({
+      mode: input.mode,
+      tone: input.tone,
+      guidance: input.guidance,
+      maxChars: input.maxChars,
+      variants: input.variants,
+      platform: input.platform,
+      language: input.language,
+      brandVoiceId: input.brandVoice?.id,
+      imageHash: "image" in input ? input.image?.hash : undefined,
+      imageHashes:
+        "images" in input
+          ? input.images.map((image) => image.hash)
+          : undefined,
+      post: input.mode === "reply" ? input.post : undefined,
+      result,
+    });
+
+    const limit = historyLimit();
+    await historyStore.replace((records) =>
+      records.length > limit ? records.slice(records.length - limit) : records,
+    );
+
+    return entry.id;
+  } catch (error) {
+    console.error("Failed to record history", error);
+    return null;
+  }
+}
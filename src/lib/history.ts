@@ -0,0 +1,72 @@
+import type { GenerationResult, Mode, Tone } from "@/lib/generation/types";
+import type { LanguageId } from "@/lib/languages";
+import type { PlatformId } from "@/lib/platforms";
+
+export type HistoryEntry = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  mode: Mode;
+  tone: Tone;
+  guidance: string;
+  maxChars?: number;
+  /** Missing on entries saved before variant counts were configurable. */
+  variants?: number;
+  platform: PlatformId;
+  /** Missing on entries saved before output languages existed. */
+  language?: LanguageId;
+  brandVoiceId?: string;
+  imageHash?: string;
+  /** Carousel runs keep the hash of every slide, in order. */
+  imageHashes?: string[];
+  /** Reply runs keep the caption the comments were left under. */
+  post?: string;
+  result: GenerationResult;
+};
+
+export type HistorySummary = Omit<HistoryEntry, "result"> & {
+  preview: string;
+  itemCount: number;
+};
+
+export type HistoryFilters = {
+  query?: string;
+  mode?: Mode;
+  tone?: Tone;
+};
+
+export function matchesHistoryFilters(
+  entry: HistoryEntry,
+  { query, mode, tone }: HistoryFilters,
+) {
+  if (mode && entry.mode !== mode) return false;
+  if (tone && entry.tone !== tone) return false;
+
+  const needle = query?.trim().toLowerCase();
+  if (!needle) return true;
+
+  const haystack = [
+    entry.guidance,
+    entry.post ?? "",
+    ...(entry.result.mode === "reply"
+      ? (entry.result.comments ?? []).map((comment) => comment.text)
+      : []),
+    ...entry.result.items.flatMap((item) =>
+      "hashtags" in item ? [item.text, item.hashtags] : [item.text],
+    ),
+  ]
+    .join("\n")
+    .toLowerCase();
+
+  return haystack.includes(needle);
+}
+
+export function summarizeHistoryEntry(entry: HistoryEntry): HistorySummary {
+  const { result, ...rest } = entry;
+
+  return {
+    ...rest,
+    preview: result.items[0]?.text ?? "",
+    itemCount: result.items.length,
+  };
+}
@@ -0,0 +1,122 @@
+import heicConvert from "heic-convert";
+import sharp from "sharp";
+import { readPositiveInt } from "@/lib/env";
+
+export type PreparedImage = {
+  type: "image/jpeg";
+  bytes: Buffer;
+  width: number;
+  height: number;
+};
+
+/** Upload formats as users know them, for validation feedback. */
+export const acceptedImageFormats = ["jpeg", "png", "webp", "heic", "avif"];
+
+/** Formats accepted after sniffing the bytes; HEIC and AVIF both report `heif`. */
+const acceptedFormats = new Set(["jpeg", "png", "webp", "heif"]);
+
+const defaultMaxEdge = 1536;
+const defaultMaxUploadMb = 15;
+const jpegQuality = 82;
+
+// HEIF brands whose images are HEVC-coded, which the bundled libvips cannot
+// decode. AVIF ("avif", "avis") decodes natively.
+const hevcBrands = new Set([
+  "heic",
+  "heix",
+  "hevc",
+  "hevx",
+  "heim",
+  "heis",
+  "mif1",
+  "msf1",
+]);
+
+/** Longest edge, in pixels, of the image sent to the model (`IMAGE_MAX_EDGE`). */
+export function imageMaxEdge() {
+  return readPositiveInt(process.env.IMAGE_MAX_EDGE, defaultMaxEdge);
+}
+
+/** Largest accepted upload, before preprocessing (`IMAGE_MAX_UPLOAD_MB`). */
+export function imageMaxUploadBytes() {
+  return (
+    readPositiveInt(process.env.IMAGE_MAX_UPLOAD_MB, defaultMaxUploadMb) *
+    1024 *
+    1024
+  );
+}
+
+function heifBrand(bytes: Buffer) {
+  if (bytes.length < 12 || bytes.toString("latin1", 4, 8) !== "ftyp") {
+    return null;
+  }
+
+  return bytes.toString("latin1", 8, 12);
+}
+
+async function readFormat(bytes: Buffer) {
+  try {
+    const { format, compression } = await sharp(bytes).metadata();
+    return { format, compression };
+  } catch {
+    return null;
+  }
+}
+
+/** Turns HEVC-coded HEIF into JPEG so sharp can take over. */
+async function toDecodable(bytes: Buffer) {
+  const brand = heifBrand(bytes);
+  const metadata = await readFormat(bytes);
+
+  if (
+    brand &&
+    hevcBrands.has(brand) &&
+    (!metadata || metadata.compression !== "av1")
+  ) {
+    return Buffer.from(
+      await heicConvert({ buffer: bytes, format: "JPEG", quality: 0.92 }),
+    );
+  }
+
+  if (!metadata?.format || !acceptedFormats.has(metadata.format)) {
+    return null;
+  }
+
+  return bytes;
+}
+
+/**
+ * Decodes an uploaded photo, applies its EXIF orientation, downscales it to
+ * the configured maximum edge and re-encodes it as JPEG. sharp drops all
+ * metadata on output, so EXIF (GPS included) never reaches the model or the
+ * history. Returns null for anything that cannot be decoded.
+ */
+export async function prepareImage(bytes: Buffer): Promise<PreparedImage | null> {
+  try {
+    const decodable = await toDecodable(bytes);
+    if (!decodable) return null;
+
+    const maxEdge = imageMaxEdge();
+    const { data, info } = await sharp(decodable)
+      .rotate()
+      .resize({
+        width: maxEdge,
+        height: maxEdge,
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: jpegQuality, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      type: "image/jpeg",
+      bytes: data,
+      width: info.width,
+      height: info.height,
+    };
+  } catch (error) {
+    console.error("Image preprocessing failed", error);
+    return null;
+  }
+}
@@ -0,0 +1,109 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type StoredRecord = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export function dataDirectory() {
+  return process.env.DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+/**
+ * A tiny JSON-file collection for single-instance deployments. Every write
+ * rewrites the whole file through a temp file and rename, and writes are
+ * queued so concurrent requests cannot interleave.
+ */
+export function createJsonCollection<T extends StoredRecord>(fileName: string) {
+  const filePath = () => path.join(dataDirectory(), fileName);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function readAll(): Promise<T[]> {
+    try {
+      const contents = JSON.parse(await readFile(filePath(), "utf8")) as {
+        records?: T[];
+      };
+      return Array.isArray(contents.records) ? contents.records : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async function writeAll(records: T[]) {
+    const target = filePath();
+    const temp = `${target}.${process.pid}.tmp`;
+
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(temp, JSON.stringify({ records }, null, 2), "utf8");
+    await rename(temp, target);
+  }
+
+  function mutate<R>(change: (records: T[]) => { records: T[]; result: R }) {
+    const run = queue.then(async () => {
+      const { records, result } = change(await readAll());
+      await writeAll(records);
+      return result;
+    });
+
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  return {
+    list: readAll,
+
+    async get(id: string) {
+      return (await readAll()).find((record) => record.id === id) ?? null;
+    },
+
+    create(data: Omit<T, keyof StoredRecord>) {
+      const now = new Date().toISOString();
+      const record = {
+        ...data,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      } as T;
+
+      return mutate((records) => ({ records: [...records, record], result: record }));
+    },
+
+    update(id: string, patch: Partial<Omit<T, keyof StoredRecord>>) {
+      return mutate((records) => {
+        const index = records.findIndex((record) => record.id === id);
+        if (index === -1) {
+          return { records, result: null };
+        }
+
+        const updated = {
+          ...records[index],
+          ...patch,
+          id,
+          updatedAt: new Date().toISOString(),
+        } as T;
+        const next = [...records];
+        next[index] = updated;
+
+        return { records: next, result: updated };
+      });
+    },
+
+    remove(id: string) {
+      return mutate((records) => {
+        const next = records.filter((record) => record.id !== id);
+        return { records: next, result: next.length !== records.length };
+      });
+    },
+
+    /** Replaces the collection wholesale, e.g. to prune old entries. */
+    replace(change: (records: T[]) => T[]) {
+      return mutate((records) => ({ records: change(records), result: undefined }));
+    },
+  };
+}
@@ -0,0 +1,26 @@
+export type LanguageId = "en" | "sv" | "de" | "es";
+
+export type Language = {
+  id: LanguageId;
+  /** Name in English, as used in prompts. */
+  name: string;
+  /** Name in the language itself, as shown in the form. */
+  nativeName: string;
+};
+
+export const defaultLanguageId: LanguageId = "en";
+
+export const languages: Language[] = [
+  { id: "en", name: "English", nativeName: "English" },
+  { id: "sv", name: "Swedish", nativeName: "Svenska" },
+  { id: "de", name: "German", nativeName: "Deutsch" },
+  { id: "es", name: "Spanish", nativeName: "Español" },
+];
+
+export function isLanguageId(value: unknown): value is LanguageId {
+  return languages.some((language) => language.id === value);
+}
+
+export function getLanguage(id: LanguageId = defaultLanguageId) {
+  return languages.find((language) => language.id === id) ?? languages[0];
+}
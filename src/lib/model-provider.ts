@@ -0,0 +1,291 @@
+import OpenAI from "openai";
+import { sleep } from "@/lib/deadline";
+import { readNonNegativeInt } from "@/lib/env";
+
+export type ChatMessage = OpenAI.ChatCompletionMessageParam;
+
+export type ProviderId = "openai" | "openai-compatible" | "mock";
+
+/** Aborting `signal` cancels the underlying HTTP request. */
+export type CallOptions = { signal?: AbortSignal };
+
+export type ModelProvider = {
+  id: ProviderId;
+  model: string;
+  isConfigured: boolean;
+  complete(messages: ChatMessage[], options?: CallOptions): Promise<string>;
+  stream(messages: ChatMessage[], options?: CallOptions): AsyncIterable<string>;
+};
+
+type OpenAIProviderOptions = {
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+  temperature: number;
+};
+
+const providerIds: ProviderId[] = ["openai", "openai-compatible", "mock"];
+
+const defaultOpenAIModel = "gpt-4o-mini";
+const defaultTemperature = 0.8;
+const mockChunkSize = 24;
+const mockHashtagCount = 8;
+
+function extractContent(
+  content: OpenAI.ChatCompletionMessage["content"] | unknown,
+) {
+  if (!content) {
+    throw new Error("Empty response from model");
+  }
+
+  if (typeof content === "string") {
+    return content.trim();
+  }
+
+  if (Array.isArray(content)) {
+    const parts = content as Array<
+      | string
+      | {
+          text?: string | null;
+        }
+    >;
+
+    return parts
+      .map((part) => {
+        if (typeof part === "string") return part;
+        if ("text" in part && part.text) return part.text;
+        return "";
+      })
+      .join("\n")
+      .trim();
+  }
+
+  return String(content).trim();
+}
+
+function createChatCompletionsProvider(
+  id: ProviderId,
+  options: OpenAIProviderOptions,
+  isConfigured: boolean,
+): ModelProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+  });
+
+  return {
+    id,
+    model: options.model,
+    isConfigured,
+    async complete(messages, { signal } = {}) {
+      const response = await client.chat.completions.create(
+        {
+          model: options.model,
+          temperature: options.temperature,
+          messages,
+        },
+        { signal },
+      );
+
+      return extractContent(response.choices[0]?.message?.content);
+    },
+    async *stream(messages, { signal } = {}) {
+      const stream = await client.chat.completions.create(
+        {
+          model: options.model,
+          temperature: options.temperature,
+          messages,
+          stream: true,
+        },
+        { signal },
+      );
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    },
+  };
+}
+
+export function createOpenAIProvider(
+  options: OpenAIProviderOptions,
+): ModelProvider {
+  return createChatCompletionsProvider(
+    "openai",
+    options,
+    Boolean(options.apiKey),
+  );
+}
+
+/**
+ * Any server speaking the Chat Completions protocol (llama.cpp, Ollama,
+ * vLLM, LM Studio). Most of them ignore the API key, so only the base URL
+ * is required.
+ */
+export function createOpenAICompatibleProvider(
+  options: OpenAIProviderOptions,
+): ModelProvider {
+  return createChatCompletionsProvider(
+    "openai-compatible",
+    { ...options, apiKey: options.apiKey || "not-needed" },
+    Boolean(options.baseURL),
+  );
+}
+
+function findSchemaTemplate(messages: ChatMessage[]) {
+  for (let index = messages.length - 1; index >= 0; index -= 1) {
+    const message = messages[index];
+    if (message.role !== "user") continue;
+
+    const text =
+      typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((part) => (part.type === "text" ? part.text : ""))
+            .join("\n");
+
+    const marker = text.indexOf("Output EXACTLY in JSON");
+    if (marker === -1) continue;
+
+    const start = text.indexOf("{", marker);
+    const end = text.lastIndexOf("}");
+    if (start === -1 || end <= start) continue;
+
+    try {
+      return JSON.parse(text.slice(start, end + 1)) as unknown;
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+}
+
+function fillTemplate(
+  value: unknown,
+  key: string | undefined,
+  counter: { hashtags: number },
+): unknown {
+  if (typeof value === "string") {
+    if (key === "hashtags" || value.startsWith("#")) {
+      counter.hashtags += 1;
+      return Array.from(
+        { length: mockHashtagCount },
+        (_, index) => `#mock${counter.hashtags}tag${index + 1}`,
+      ).join(" ");
+    }
+    return `Mock ${value} drafted offline.`;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry) => fillTemplate(entry, key, counter));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([entryKey, entry]) => [
+        entryKey,
+        fillTemplate(entry, entryKey, counter),
+      ]),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Deterministic provider for tests and offline work. It answers with the
+ * JSON example embedded in the prompt, with every placeholder filled in, so
+ * the same request always produces the same valid payload. `latencyMs`
+ * delays each streamed chunk (and a whole non-streamed reply), which makes
+ * progress, cancel and deadline behaviour visible locally.
+ */
+export function createMockProvider({
+  latencyMs = 0,
+}: { latencyMs?: number } = {}): ModelProvider {
+  function reply(messages: ChatMessage[]) {
+    const template = findSchemaTemplate(messages);
+    if (!template) {
+      return "Mock reply drafted offline.";
+    }
+
+    return JSON.stringify(fillTemplate(template, undefined, { hashtags: 0 }));
+  }
+
+  return {
+    id: "mock",
+    model: "mock",
+    isConfigured: true,
+    async complete(messages, { signal } = {}) {
+      await sleep(latencyMs, signal);
+      return reply(messages);
+    },
+    async *stream(messages, { signal } = {}) {
+      const content = reply(messages);
+      for (let offset = 0; offset < content.length; offset += mockChunkSize) {
+        await sleep(latencyMs, signal);
+        yield content.slice(offset, offset + mockChunkSize);
+      }
+    },
+  };
+}
+
+function readTemperature() {
+  const raw = process.env.MODEL_TEMPERATURE;
+  if (!raw) return defaultTemperature;
+
+  const value = Number.parseFloat(raw);
+  return Number.isFinite(value) && value >= 0 && value <= 2
+    ? value
+    : defaultTemperature;
+}
+
+function readProviderId(): ProviderId {
+  const raw = process.env.MODEL_PROVIDER?.trim().toLowerCase();
+  if (!raw) return "openai";
+
+  if (!providerIds.includes(raw as ProviderId)) {
+    throw new Error(`Unknown MODEL_PROVIDER "${raw}"`);
+  }
+
+  return raw as ProviderId;
+}
+
+export function createModelProviderFromEnv(): ModelProvider {
+  const id = readProviderId();
+  const temperature = readTemperature();
+
+  if (id === "mock") {
+    return createMockProvider({
+      latencyMs: readNonNegativeInt(process.env.MOCK_LATENCY_MS, 0),
+    });
+  }
+
+  if (id === "openai-compatible") {
+    return createOpenAICompatibleProvider({
+      apiKey: process.env.MODEL_API_KEY,
+      baseURL: process.env.MODEL_BASE_URL,
+      model: process.env.MODEL_NAME || "llama3.2-vision",
+      temperature,
+    });
+  }
+
+  return createOpenAIProvider({
+    apiKey: process.env.OPENAI_API_KEY,
+    baseURL: process.env.MODEL_BASE_URL || undefined,
+    model: process.env.MODEL_NAME || defaultOpenAIModel,
+    temperature,
+  });
+}
+
+let cachedProvider: ModelProvider | null = null;
+
+export function getModelProvider() {
+  if (!cachedProvider) {
+    cachedProvider = createModelProviderFromEnv();
+  }
+  return cachedProvider;
+}
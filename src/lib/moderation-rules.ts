@@ -0,0 +1,154 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+export type ModerationTarget = "input" | "output";
+
+export type ModerationRule = {
+  id: string;
+  category: string;
+  regex: RegExp;
+  appliesTo: ModerationTarget | "both";
+};
+
+type RulesFile = {
+  blockedTerms?: unknown;
+  patterns?: unknown;
+};
+
+const defaultRulesPath = path.join(
+  process.cwd(),
+  "config",
+  "moderation-rules.json",
+);
+
+/**
+ * Prompt-injection patterns are always checked on user text, whatever the
+ * rules file says. They target attempts to steer the model, not topics.
+ */
+const injectionRules: ModerationRule[] = [
+  {
+    id: "ignore-instructions",
+    category: "prompt-injection",
+    regex:
+      /\b(?:ignore|disregard|forget|override)\b[^.\n]{0,40}\b(?:previous|prior|above|earlier|all|system)\b[^.\n]{0,20}\b(?:instructions?|prompts?|rules?|directions?)\b/i,
+    appliesTo: "input",
+  },
+  {
+    id: "role-override",
+    category: "prompt-injection",
+    regex:
+      /\byou are (?:now|no longer)\b|\bpretend (?:to be|you are)\b|\bact as (?:an? )?(?:unfiltered|uncensored|jailbroken)\b|\bdeveloper mode\b/i,
+    appliesTo: "input",
+  },
+  {
+    id: "prompt-leak",
+    category: "prompt-injection",
+    regex:
+      /\b(?:reveal|print|show|repeat|output)\b[^.\n]{0,30}\b(?:system prompt|your instructions|hidden prompt)\b/i,
+    appliesTo: "input",
+  },
+  {
+    id: "chat-markup",
+    category: "prompt-injection",
+    regex:
+      /<\|?(?:im_start|im_end|system|endoftext)\|?>|\[\/?(?:INST|SYS)\]|^\s*(?:system|assistant)\s*:/im,
+    appliesTo: "input",
+  },
+  {
+    id: "schema-override",
+    category: "prompt-injection",
+    regex: /"items"\s*:|output exactly in json/i,
+    appliesTo: "input",
+  },
+];
+
+let cached: { path: string; rules: ModerationRule[] } | null = null;
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Whole-word, case-insensitive match that tolerates any run of whitespace. */
+function termRegex(term: string) {
+  const body = term
+    .trim()
+    .split(/\s+/)
+    .map(escapeRegExp)
+    .join("\\s+");
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, "iu");
+}
+
+function readTarget(value: unknown): ModerationRule["appliesTo"] {
+  return value === "input" || value === "output" ? value : "both";
+}
+
+function collectTerms(target: ModerationRule[], groups: unknown) {
+  if (!Array.isArray(groups)) return;
+
+  for (const group of groups as Array<{ category?: unknown; terms?: unknown }>) {
+    if (typeof group?.category !== "string" || !Array.isArray(group.terms)) {
+      continue;
+    }
+
+    for (const term of group.terms) {
+      if (typeof term !== "string" || !term.trim()) continue;
+      target.push({
+        id: `term:${term.trim().toLowerCase()}`,
+        category: group.category,
+        regex: termRegex(term),
+        appliesTo: "both",
+      });
+    }
+  }
+}
+
+function collectPatterns(target: ModerationRule[], patterns: unknown) {
+  if (!Array.isArray(patterns)) return;
+
+  for (const entry of patterns as Array<Record<string, unknown>>) {
+    if (
+      typeof entry?.id !== "string" ||
+      typeof entry.category !== "string" ||
+      typeof entry.pattern !== "string"
+    ) {
+      continue;
+    }
+
+    target.push({
+      id: entry.id,
+      category: entry.category,
+      regex: new RegExp(entry.pattern, "iu"),
+      appliesTo: readTarget(entry.appliesTo),
+    });
+  }
+}
+
+/**
+ * Loads blocked terms and regex rules from `MODERATION_RULES_PATH`, or
+ * `config/moderation-rules.json` by default, plus the built-in
+ * prompt-injection rules. A missing file leaves only the built-in rules; a
+ * malformed file or an invalid pattern is an error.
+ */
+export async function loadModerationRules() {
+  const filePath = process.env.MODERATION_RULES_PATH || defaultRulesPath;
+
+  if (cached?.path === filePath) {
+    return cached.rules;
+  }
+
+  const rules = [...injectionRules];
+
+  try {
+    const contents = JSON.parse(await readFile(filePath, "utf8")) as RulesFile;
+    collectTerms(rules, contents.blockedTerms);
+    collectPatterns(rules, contents.patterns);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+
+  cached = { path: filePath, rules };
+  return rules;
+}
@@ -0,0 +1,113 @@
+import OpenAI from "openai";
+import {
+  loadModerationRules,
+  type ModerationTarget,
+} from "@/lib/moderation-rules";
+
+export type ModerationFlag = {
+  source: "rules" | "provider";
+  /** Rule id, or the provider's model name. */
+  rule: string;
+  category: string;
+};
+
+export type ModerationVerdict = {
+  flagged: boolean;
+  flags: ModerationFlag[];
+};
+
+export type ModerationProvider = {
+  id: "openai";
+  model: string;
+  /** Returns the flags for each text, in order. */
+  check(texts: string[]): Promise<ModerationFlag[][]>;
+};
+
+const defaultModerationModel = "omni-moderation-latest";
+
+export function createOpenAIModerationProvider({
+  apiKey,
+  model,
+}: {
+  apiKey?: string;
+  model: string;
+}): ModerationProvider {
+  const client = new OpenAI({ apiKey });
+
+  return {
+    id: "openai",
+    model,
+    async check(texts) {
+      const response = await client.moderations.create({ model, input: texts });
+
+      return response.results.map((result) =>
+        Object.entries(result.categories)
+          .filter(([, flagged]) => flagged)
+          .map(([category]) => ({ source: "provider", rule: model, category })),
+      );
+    },
+  };
+}
+
+/**
+ * `MODERATION_PROVIDER=openai` adds the OpenAI moderation endpoint on top of
+ * the local rules. Anything else, including unset, means local rules only.
+ */
+export function createModerationProviderFromEnv(): ModerationProvider | null {
+  const id = process.env.MODERATION_PROVIDER?.trim().toLowerCase();
+  if (id !== "openai") {
+    return null;
+  }
+
+  return createOpenAIModerationProvider({
+    apiKey: process.env.MODERATION_API_KEY || process.env.OPENAI_API_KEY,
+    model: process.env.MODERATION_MODEL || defaultModerationModel,
+  });
+}
+
+let cachedProvider: ModerationProvider | null | undefined;
+
+export function getModerationProvider() {
+  if (cachedProvider === undefined) {
+    cachedProvider = createModerationProviderFromEnv();
+  }
+  return cachedProvider;
+}
+
+/**
+ * Screens each text against the local rules for `target` and, when one is
+ * configured, the moderation provider in a single call. A provider outage is
+ * logged and the local verdict stands.
+ */
+export async function screenTexts(
+  texts: string[],
+  target: ModerationTarget,
+): Promise<ModerationVerdict[]> {
+  const rules = (await loadModerationRules()).filter(
+    (rule) => rule.appliesTo === "both" || rule.appliesTo === target,
+  );
+
+  const flags = texts.map((text) =>
+    rules
+      .filter((rule) => rule.regex.test(text))
+      .map(
+        (rule): ModerationFlag => ({
+          source: "rules",
+          rule: rule.id,
+          category: rule.category,
+        }),
+      ),
+  );
+
+  const provider = getModerationProvider();
+  if (provider && texts.length > 0) {
+    try {
+      const providerFlags = await provider.check(texts);
+      providerFlags.forEach((entry, index) => flags[index]?.push(...entry));
+    } catch (error) {
+      console.error("Moderation provider failed", error);
+    }
+  }
+
+  return flags.map((entry) => ({ flagged: entry.length > 0, flags: entry }));
+}
@@ -0,0 +1,358 @@
+import { apiErrorCodes } from "@/lib/api-v1";
+import {
+  allowedTones,
+  carouselMaxSlides,
+  minCarouselSlides,
+  minReplyComments,
+  modes,
+  replyMaxComments,
+} from "@/lib/generation/input";
+import {
+  maxBioGuidanceLength,
+  maxCaptionGuidanceLength,
+  maxReplyCommentLength,
+  maxReplyPostLength,
+  minBioGuidanceLength,
+} from "@/lib/generation/input-limits";
+import { carouselSlideLineMaxChars } from "@/lib/generation/payloads";
+import { variantBounds } from "@/lib/generation/variants";
+import { imageMaxUploadBytes } from "@/lib/image-preprocess";
+import { defaultLanguageId, languages } from "@/lib/languages";
+import {
+  altTextMaxChars,
+  defaultPlatformId,
+  maxCharsMin,
+  platformPresets,
+} from "@/lib/platforms";
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: {
+      "application/json": {
+        schema: { $ref: "#/components/schemas/ErrorEnvelope" },
+      },
+    },
+  };
+}
+
+/**
+ * The OpenAPI 3.1 description of `/api/v1`. Enums and limits are read from
+ * the same constants the validators use, so the document cannot drift from
+ * the behaviour.
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  const variants = modes.map((mode) => ({ mode, ...variantBounds(mode) }));
+  const maxCharsMax = Math.max(
+    ...platformPresets.flatMap((preset) => [
+      preset.captionMaxChars,
+      preset.bioMaxChars,
+    ]),
+  );
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Caption Coach API",
+      version: "1.0.0",
+      description:
+        "Generate social media captions or alt text from an image, carousel captions from a set of images, short bios from an About text, or replies to comments on a post.",
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ apiKey: [] }, { bearer: [] }],
+    paths: {
+      "/captions": {
+        post: {
+          operationId: "generateCaptions",
+          summary:
+            "Generate captions, bios, alt text, carousel captions or comment replies",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/CaptionsRequest" },
+              },
+            },
+          },
+          responses: {
+            "200": {
+              description: "Generated copy.",
+              headers: {
+                "X-Request-Id": { schema: { type: "string" } },
+              },
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    required: ["data", "meta"],
+                    properties: {
+                      data: { $ref: "#/components/schemas/GenerationResult" },
+                      meta: { $ref: "#/components/schemas/Meta" },
+                    },
+                  },
+                },
+              },
+            },
+            "400": errorResponse(
+              "Invalid request, unreadable image or flagged input.",
+            ),
+            "401": errorResponse("Missing or unknown API key."),
+            "413": errorResponse("Image too large."),
+            "429": {
+              ...errorResponse("Rate limited by this API or the model."),
+              headers: {
+                "Retry-After": { schema: { type: "integer" } },
+              },
+            },
+            "500": errorResponse("Provider or internal error."),
+            "502": errorResponse("The model's output could not be parsed."),
+            "503": errorResponse("No model provider is configured."),
+            "504": errorResponse("The generation deadline passed."),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        bearer: { type: "http", scheme: "bearer" },
+      },
+      schemas: {
+        CaptionsRequest: {
+          type: "object",
+          required: ["mode"],
+          properties: {
+            mode: { type: "string", enum: modes },
+            tone: {
+              type: "string",
+              examples: allowedTones,
+              description:
+                "A built-in tone or the id of a custom tone from /api/tones. Required for captions, carousels and replies; bios default to classy; ignored for alt text.",
+            },
+            guidance: {
+              type: "string",
+              description: `Optional caption guidance or alt text context (at most ${maxCaptionGuidanceLength} characters), or the About text for a bio (${minBioGuidanceLength}–${maxBioGuidanceLength}).`,
+            },
+            maxChars: {
+              type: "integer",
+              minimum: maxCharsMin,
+              maximum: maxCharsMax,
+              description: `Defaults to the platform limit; cannot exceed it. Short alt text is capped at ${altTextMaxChars}.`,
+            },
+            variants: {
+              type: "integer",
+              minimum: Math.min(...variants.map((bounds) => bounds.min)),
+              maximum: Math.max(...variants.map((bounds) => bounds.max)),
+              description: `How many items to draft (for replies, options per comment), per mode: ${variants
+                .map(
+                  (bounds) =>
+                    `${bounds.mode} ${bounds.min}–${bounds.max} (default ${bounds.default})`,
+                )
+                .join(", ")}.`,
+            },
+            platform: {
+              type: "string",
+              enum: platformPresets.map((preset) => preset.id),
+              default: defaultPlatformId,
+            },
+            language: {
+              type: "string",
+              enum: languages.map((language) => language.id),
+              default: defaultLanguageId,
+            },
+            brandVoiceId: { type: "string" },
+            bypassCache: {
+              type: "boolean",
+              default: false,
+              description: "Draft fresh variants instead of a cached result.",
+            },
+            image: { $ref: "#/components/schemas/Image" },
+            images: {
+              type: "array",
+              description: "Required for carousels: the slides, in order.",
+              minItems: minCarouselSlides,
+              maxItems: carouselMaxSlides(),
+              items: { $ref: "#/components/schemas/Image" },
+            },
+            slideLines: {
+              type: "boolean",
+              default: true,
+              description: "Carousels only: draft a short line per slide.",
+            },
+            post: {
+              type: "string",
+              maxLength: maxReplyPostLength,
+              description:
+                "Required for replies: the caption the comments were left under. The image is optional context.",
+            },
+            comments: {
+              type: "array",
+              description: "Required for replies: the comments to answer.",
+              minItems: minReplyComments,
+              maxItems: replyMaxComments(),
+              items: { type: "string", maxLength: maxReplyCommentLength },
+            },
+          },
+        },
+        Image: {
+          description: `Required for captions and alt text; optional for replies. JPEG, PNG, WebP, HEIC or AVIF up to ${imageMaxUploadBytes() / 1024 / 1024} MB.`,
+          oneOf: [
+            {
+              type: "object",
+              required: ["base64"],
+              properties: {
+                base64: {
+                  type: "string",
+                  description: "Raw base64 or a data: URL.",
+                },
+              },
+            },
+            {
+              type: "object",
+              required: ["url"],
+              properties: { url: { type: "string", format: "uri" } },
+            },
+          ],
+        },
+        CaptionItem: {
+          type: "object",
+          required: ["text", "hashtags", "tags"],
+          properties: {
+            text: { type: "string" },
+            hashtags: { type: "string" },
+            tags: { type: "array", items: { type: "string" } },
+          },
+        },
+        BioItem: {
+          type: "object",
+          required: ["text"],
+          properties: { text: { type: "string" } },
+        },
+        AltTextItem: {
+          type: "object",
+          required: ["text", "description"],
+          properties: {
+            text: { type: "string", description: "Short alt text." },
+            description: {
+              type: "string",
+              description: "Longer description, including any visible text.",
+            },
+          },
+        },
+        CarouselItem: {
+          type: "object",
+          required: ["text", "hashtags", "tags", "slides"],
+          properties: {
+            text: { type: "string" },
+            hashtags: { type: "string", description: "Shared by all slides." },
+            tags: { type: "array", items: { type: "string" } },
+            slides: {
+              type: "array",
+              description: `One line per slide (at most ${carouselSlideLineMaxChars} characters each), or empty when slideLines is false.`,
+              items: { type: "string" },
+            },
+          },
+        },
+        ReplyItem: {
+          type: "object",
+          required: ["comment", "text"],
+          properties: {
+            comment: {
+              type: "integer",
+              description: "Index of the comment this option answers.",
+            },
+            text: { type: "string" },
+          },
+        },
+        ReplyComment: {
+          type: "object",
+          required: ["text"],
+          properties: {
+            text: { type: "string" },
+            escalation: {
+              type: "string",
+              description:
+                "Why a person should answer this comment; escalated comments get no reply options.",
+            },
+          },
+        },
+        GenerationResult: {
+          type: "object",
+          required: ["mode", "items", "cached", "source"],
+          properties: {
+            mode: { type: "string", enum: modes },
+            items: {
+              type: "array",
+              items: {
+                oneOf: [
+                  { $ref: "#/components/schemas/CaptionItem" },
+                  { $ref: "#/components/schemas/BioItem" },
+                  { $ref: "#/components/schemas/AltTextItem" },
+                  { $ref: "#/components/schemas/CarouselItem" },
+                  { $ref: "#/components/schemas/ReplyItem" },
+                ],
+              },
+            },
+            comments: {
+              type: "array",
+              description: "Replies only: the comments, in request order.",
+              items: { $ref: "#/components/schemas/ReplyComment" },
+            },
+            adjustments: {
+              type: "array",
+              description: "Items that were rewritten or trimmed to fit.",
+              items: {
+                type: "object",
+                properties: {
+                  index: { type: "integer" },
+                  action: { type: "string", enum: ["regenerated", "trimmed"] },
+                  originalLength: { type: "integer" },
+                  finalLength: { type: "integer" },
+                },
+              },
+            },
+            moderation: {
+              type: "object",
+              properties: {
+                verdict: { type: "string", enum: ["clean", "revised"] },
+                actions: { type: "array", items: { type: "object" } },
+              },
+            },
+            partial: {
+              type: "boolean",
+              description: "Only some items finished before the deadline.",
+            },
+            cached: { type: "boolean" },
+            source: { type: "string", enum: ["model", "cache"] },
+            historyId: { type: ["string", "null"] },
+          },
+        },
+        Meta: {
+          type: "object",
+          required: ["requestId"],
+          properties: { requestId: { type: "string" } },
+        },
+        ErrorEnvelope: {
+          type: "object",
+          required: ["error", "meta"],
+          properties: {
+            error: {
+              type: "object",
+              required: ["code", "message"],
+              properties: {
+                code: { type: "string", enum: apiErrorCodes },
+                message: { type: "string" },
+                details: {
+                  type: "object",
+                  description:
+                    "For invalid_request and invalid_image raised by validation: the failing field, a stable reason code and any limits.",
+                },
+              },
+            },
+            meta: { $ref: "#/components/schemas/Meta" },
+          },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,118 @@
+export type PlatformId =
+  | "general"
+  | "instagram"
+  | "tiktok"
+  | "x"
+  | "linkedin"
+  | "facebook"
+  | "threads";
+
+export type PlatformPreset = {
+  id: PlatformId;
+  label: string;
+  captionMaxChars: number;
+  bioMaxChars: number;
+  hashtags: { min: number; max: number };
+  linkNote: string;
+  hashtagsShareLimit: boolean;
+};
+
+export const maxCharsMin = 40;
+
+export const defaultPlatformId: PlatformId = "general";
+
+export const platformPresets: PlatformPreset[] = [
+  {
+    id: "general",
+    label: "Any network",
+    captionMaxChars: 220,
+    bioMaxChars: 220,
+    hashtags: { min: 8, max: 12 },
+    linkNote: "Only mention a link if the guidance asks for one.",
+    hashtagsShareLimit: false,
+  },
+  {
+    id: "instagram",
+    label: "Instagram",
+    captionMaxChars: 2200,
+    bioMaxChars: 150,
+    hashtags: { min: 8, max: 12 },
+    linkNote: "Links in captions are not clickable; point to the link in bio instead.",
+    hashtagsShareLimit: true,
+  },
+  {
+    id: "tiktok",
+    label: "TikTok",
+    captionMaxChars: 2200,
+    bioMaxChars: 80,
+    hashtags: { min: 3, max: 6 },
+    linkNote: "Links in captions are not clickable; point to the link in bio instead.",
+    hashtagsShareLimit: true,
+  },
+  {
+    id: "x",
+    label: "X",
+    captionMaxChars: 280,
+    bioMaxChars: 160,
+    hashtags: { min: 1, max: 2 },
+    linkNote: "Inline links are clickable and always count as 23 characters.",
+    hashtagsShareLimit: true,
+  },
+  {
+    id: "linkedin",
+    label: "LinkedIn",
+    captionMaxChars: 3000,
+    bioMaxChars: 220,
+    hashtags: { min: 3, max: 5 },
+    linkNote: "Inline links are clickable; keep at most one and place it at the end.",
+    hashtagsShareLimit: true,
+  },
+  {
+    id: "facebook",
+    label: "Facebook",
+    captionMaxChars: 2000,
+    bioMaxChars: 101,
+    hashtags: { min: 1, max: 3 },
+    linkNote: "Inline links are clickable and unfurl into a preview card.",
+    hashtagsShareLimit: true,
+  },
+  {
+    id: "threads",
+    label: "Threads",
+    captionMaxChars: 500,
+    bioMaxChars: 150,
+    hashtags: { min: 0, max: 1 },
+    linkNote: "Inline links are clickable; Threads supports a single topic tag per post.",
+    hashtagsShareLimit: true,
+  },
+];
+
+export function isPlatformId(value: unknown): value is PlatformId {
+  return platformPresets.some((preset) => preset.id === value);
+}
+
+export function getPlatformPreset(id: PlatformId = defaultPlatformId) {
+  return (
+    platformPresets.find((preset) => preset.id === id) ?? platformPresets[0]
+  );
+}
+
+/**
+ * Alt text is read aloud in one go by screen readers, so it stays short on
+ * every network; the long description carries the rest.
+ */
+export const altTextMaxChars = 125;
+
+export function maxCharsLimitFor(
+  preset: PlatformPreset,
+  mode: "captions" | "bio" | "alt-text" | "carousel" | "reply",
+) {
+  if (mode === "alt-text") return altTextMaxChars;
+  return mode === "bio" ? preset.bioMaxChars : preset.captionMaxChars;
+}
+
+export function hashtagRangeLabel({ hashtags }: PlatformPreset) {
+  if (hashtags.min === hashtags.max) return String(hashtags.max);
+  if (hashtags.min === 0) return `up to ${hashtags.max}`;
+  return `${hashtags.min}–${hashtags.max}`;
+}
@@ -0,0 +1,352 @@
+import { NextResponse } from "next/server";
+import { authenticateApiKey } from "@/lib/api-keys";
+import { readNonNegativeInt } from "@/lib/env";
+
+export type RateLimitRules = {
+  /** Bucket capacity: how many requests may arrive back to back. */
+  burst: number;
+  /** Tokens added back per minute. */
+  refillPerMinute: number;
+  /** Units allowed per UTC day; 0 means no daily cap. */
+  dailyQuota: number;
+};
+
+export type TakeOutcome = {
+  allowed: boolean;
+  reason?: "burst" | "daily";
+  /** Tokens left in the bucket after this request. */
+  tokens: number;
+  /** Quota units used today, this request included when allowed. */
+  used: number;
+};
+
+/**
+ * A backend that applies one request to a client's bucket and daily counter.
+ * Implementations must do the read-modify-write atomically, so several app
+ * instances can share one store.
+ */
+export type RateLimitStore = {
+  id: string;
+  take(
+    key: string,
+    request: { cost: number; now: number; day: string },
+    rules: RateLimitRules,
+  ): Promise<TakeOutcome>;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  reason?: "burst" | "daily";
+  retryAfterSeconds: number;
+  remaining: number;
+  quotaRemaining: number | null;
+};
+
+const defaultRules: RateLimitRules = {
+  burst: 5,
+  refillPerMinute: 10,
+  dailyQuota: 200,
+};
+
+const defaultTrustedProxyHops = 1;
+const dayMs = 24 * 60 * 60 * 1000;
+const maxMemoryKeys = 10_000;
+
+export function readRateLimitRules(): RateLimitRules {
+  return {
+    burst: Math.max(
+      1,
+      readNonNegativeInt(process.env.RATE_LIMIT_BURST, defaultRules.burst),
+    ),
+    refillPerMinute: Math.max(
+      1,
+      readNonNegativeInt(
+        process.env.RATE_LIMIT_REFILL_PER_MINUTE,
+        defaultRules.refillPerMinute,
+      ),
+    ),
+    dailyQuota: readNonNegativeInt(
+      process.env.RATE_LIMIT_DAILY_QUOTA,
+      defaultRules.dailyQuota,
+    ),
+  };
+}
+
+function utcDay(now: number) {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<
+    string,
+    { tokens: number; updatedAt: number; day: string; used: number }
+  >();
+
+  function prune(now: number) {
+    for (const [key, bucket] of buckets) {
+      if (now - bucket.updatedAt > dayMs) buckets.delete(key);
+    }
+  }
+
+  return {
+    id: "memory",
+    async take(key, { cost, now, day }, rules) {
+      if (buckets.size > maxMemoryKeys) prune(now);
+
+      const bucket = buckets.get(key);
+      const used = bucket && bucket.day === day ? bucket.used : 0;
+      const tokens = Math.min(
+        rules.burst,
+        bucket
+          ? bucket.tokens +
+              ((now - bucket.updatedAt) / 60_000) * rules.refillPerMinute
+          : rules.burst,
+      );
+
+      if (rules.dailyQuota > 0 && used + cost > rules.dailyQuota) {
+        return { allowed: false, reason: "daily", tokens, used };
+      }
+
+      if (tokens < 1) {
+        return { allowed: false, reason: "burst", tokens, used };
+      }
+
+      const next = { tokens: tokens - 1, updatedAt: now, day, used: used + cost };
+      buckets.set(key, next);
+      return { allowed: true, tokens: next.tokens, used: next.used };
+    },
+  };
+}
+
+// Same algorithm as the memory store, run inside Redis so it stays atomic.
+const takeScript = `
+local burst = tonumber(ARGV[1])
+local refillPerMs = tonumber(ARGV[2])
+local quota = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local now = tonumber(ARGV[5])
+local day = ARGV[6]
+local state = redis.call("HMGET", KEYS[1], "tokens", "updatedAt", "day", "used")
+local updatedAt = tonumber(state[2]) or now
+local tokens = math.min(burst, (tonumber(state[1]) or burst) + (now - updatedAt) * refillPerMs)
+local used = 0
+if state[3] == day then used = tonumber(state[4]) or 0 end
+if quota > 0 and used + cost > quota then return {0, "daily", tostring(tokens), used} end
+if tokens < 1 then return {0, "burst", tostring(tokens), used} end
+tokens = tokens - 1
+used = used + cost
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "updatedAt", now, "day", day, "used", used)
+redis.call("PEXPIRE", KEYS[1], ${2 * dayMs})
+return {1, "ok", tostring(tokens), used}
+`;
+
+/**
+ * Shared store over a Redis REST endpoint (Upstash and compatible proxies),
+ * so no Redis client is needed. Every request runs one Lua script.
+ */
+export function createRedisRestRateLimitStore({
+  url,
+  token,
+  prefix = "caption-coach:rate:",
+}: {
+  url: string;
+  token?: string;
+  prefix?: string;
+}): RateLimitStore {
+  return {
+    id: "redis",
+    async take(key, { cost, now, day }, rules) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify([
+          "EVAL",
+          takeScript,
+          "1",
+          `${prefix}${key}`,
+          rules.burst,
+          rules.refillPerMinute / 60_000,
+          rules.dailyQuota,
+          cost,
+          now,
+          day,
+        ]),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Rate limit store responded ${response.status}`);
+      }
+
+      const payload = (await response.json()) as {
+        result?: [number, string, string, number];
+        error?: string;
+      };
+      if (!payload.result) {
+        throw new Error(payload.error ?? "Invalid rate limit store response");
+      }
+
+      const [allowed, reason, tokens, used] = payload.result;
+      return {
+        allowed: allowed === 1,
+        reason: reason === "daily" || reason === "burst" ? reason : undefined,
+        tokens: Number.parseFloat(tokens),
+        used: Number(used),
+      };
+    },
+  };
+}
+
+/**
+ * `RATE_LIMIT_STORE=redis` with `RATE_LIMIT_REDIS_URL` (and usually
+ * `RATE_LIMIT_REDIS_TOKEN`) shares limits across instances; anything else
+ * keeps them in this process's memory.
+ */
+export function createRateLimitStoreFromEnv(): RateLimitStore {
+  const id = process.env.RATE_LIMIT_STORE?.trim().toLowerCase();
+  const url = process.env.RATE_LIMIT_REDIS_URL;
+
+  if (id === "redis") {
+    if (!url) {
+      throw new Error("RATE_LIMIT_STORE=redis requires RATE_LIMIT_REDIS_URL");
+    }
+
+    return createRedisRestRateLimitStore({
+      url,
+      token: process.env.RATE_LIMIT_REDIS_TOKEN,
+    });
+  }
+
+  return createMemoryRateLimitStore();
+}
+
+let cachedStore: RateLimitStore | null = null;
+
+export function getRateLimitStore() {
+  if (!cachedStore) {
+    cachedStore = createRateLimitStoreFromEnv();
+  }
+  return cachedStore;
+}
+
+function rateLimitingDisabled() {
+  return process.env.RATE_LIMIT?.trim().toLowerCase() === "off";
+}
+
+/**
+ * The client address as seen by the trusted proxies. Each of the
+ * `RATE_LIMIT_TRUSTED_PROXY_HOPS` proxies appends to `X-Forwarded-For`, so
+ * the client is that many entries from the end; anything before it was sent
+ * by the client and cannot be trusted.
+ */
+function clientAddress(request: Request) {
+  const hops = Math.max(
+    1,
+    readNonNegativeInt(
+      process.env.RATE_LIMIT_TRUSTED_PROXY_HOPS,
+      defaultTrustedProxyHops,
+    ),
+  );
+  const entries = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (entries.length > 0) {
+    return entries[Math.max(0, entries.length - hops)];
+  }
+
+  return request.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+/**
+ * Identifies the caller: the API key's record when the key is active,
+ * otherwise the client address. Unknown keys are keyed by address, so
+ * made-up keys cannot buy fresh buckets.
+ */
+export async function rateLimitKey(request: Request) {
+  const apiKey = await authenticateApiKey(request);
+
+  if (apiKey) {
+    return `key:${apiKey.id}`;
+  }
+
+  return `ip:${clientAddress(request)}`;
+}
+
+function decide(
+  outcome: TakeOutcome,
+  rules: RateLimitRules,
+  now: number,
+): RateLimitDecision {
+  const quotaRemaining =
+    rules.dailyQuota > 0 ? Math.max(0, rules.dailyQuota - outcome.used) : null;
+
+  let retryAfterMs = 0;
+  if (outcome.reason === "daily") {
+    retryAfterMs = dayMs - (now % dayMs);
+  } else if (outcome.reason === "burst") {
+    retryAfterMs = ((1 - outcome.tokens) / rules.refillPerMinute) * 60_000;
+  }
+
+  return {
+    allowed: outcome.allowed,
+    reason: outcome.reason,
+    retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+    remaining: Math.max(0, Math.floor(outcome.tokens)),
+    quotaRemaining,
+  };
+}
+
+/**
+ * Charges one request to the caller's bucket and `cost` units to their daily
+ * quota. Store failures are logged and let the request through, so an outage
+ * of a shared store does not take the app down with it.
+ */
+export async function checkRateLimit(
+  request: Request,
+  { cost = 1 }: { cost?: number } = {},
+): Promise<RateLimitDecision | null> {
+  if (rateLimitingDisabled()) {
+    return null;
+  }
+
+  const rules = readRateLimitRules();
+  const now = Date.now();
+
+  try {
+    const outcome = await getRateLimitStore().take(
+      await rateLimitKey(request),
+      { cost, now, day: utcDay(now) },
+      rules,
+    );
+    return decide(outcome, rules, now);
+  } catch (error) {
+    console.error("Rate limit check failed", error);
+    return null;
+  }
+}
+
+export function rateLimitedResponse(decision: RateLimitDecision) {
+  const error =
+    decision.reason === "daily"
+      ? "Daily limit reached."
+      : "Too many requests.";
+
+  return NextResponse.json(
+    {
+      error,
+      reason: decision.reason,
+      retryAfter: decision.retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: {
+        "Retry-After": String(decision.retryAfterSeconds),
+        "X-RateLimit-Remaining": String(decision.remaining),
+      },
+    },
+  );
+}
@@ -0,0 +1,199 @@
+import { createHash } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { readPositiveInt } from "@/lib/env";
+import type { GenerationResult } from "@/lib/generation/types";
+import { dataDirectory } from "@/lib/json-store";
+
+type CacheEntry = { expiresAt: number; result: GenerationResult };
+
+/**
+ * Where finished results are kept between identical requests. Entries carry
+ * their own expiry; stores evict the oldest entries beyond `maxEntries`.
+ */
+export type ResultCacheStore = {
+  id: "memory" | "disk";
+  get(key: string, now: number): Promise<GenerationResult | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+};
+
+const defaultTtlSeconds = 24 * 60 * 60;
+const defaultMaxEntries = 500;
+
+/** How long a cached result is served (`RESULT_CACHE_TTL_SECONDS`). */
+export function resultCacheTtlMs() {
+  return (
+    readPositiveInt(process.env.RESULT_CACHE_TTL_SECONDS, defaultTtlSeconds) *
+    1000
+  );
+}
+
+function resultCacheMaxEntries() {
+  return readPositiveInt(
+    process.env.RESULT_CACHE_MAX_ENTRIES,
+    defaultMaxEntries,
+  );
+}
+
+/** A stable digest of everything that determines a result. */
+export function resultCacheKey(parts: unknown[]) {
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+/** Least recently used entries go first once the cap is reached. */
+export function createMemoryResultCache({
+  maxEntries,
+}: {
+  maxEntries: number;
+}): ResultCacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    id: "memory",
+    async get(key, now) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      entries.delete(key);
+      if (entry.expiresAt <= now) return null;
+
+      entries.set(key, entry);
+      return entry.result;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+/**
+ * One JSON file per entry under `dir`, so results survive restarts. Once the
+ * cap is exceeded the least recently written files are removed.
+ */
+export function createDiskResultCache({
+  dir,
+  maxEntries,
+}: {
+  dir: string;
+  maxEntries: number;
+}): ResultCacheStore {
+  const filePath = (key: string) => path.join(dir, `${key}.json`);
+
+  async function prune() {
+    const names = (await readdir(dir)).filter((name) => name.endsWith(".json"));
+    if (names.length <= maxEntries) return;
+
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const file = path.join(dir, name);
+        const { mtimeMs } = await stat(file).catch(() => ({ mtimeMs: 0 }));
+        return { file, mtimeMs };
+      }),
+    );
+
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    await Promise.all(
+      files
+        .slice(0, files.length - maxEntries)
+        .map(({ file }) => rm(file, { force: true })),
+    );
+  }
+
+  return {
+    id: "disk",
+    async get(key, now) {
+      let entry: CacheEntry;
+      try {
+        entry = JSON.parse(await readFile(filePath(key), "utf8")) as CacheEntry;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+
+      if (entry.expiresAt <= now) {
+        await rm(filePath(key), { force: true });
+        return null;
+      }
+
+      return entry.result;
+    },
+    async set(key, entry) {
+      const target = filePath(key);
+      const temp = `${target}.${process.pid}.tmp`;
+
+      await mkdir(dir, { recursive: true });
+      await writeFile(temp, JSON.stringify(entry), "utf8");
+      await rename(temp, target);
+      await prune();
+    },
+  };
+}
+
+/**
+ * `RESULT_CACHE=disk` keeps results under the data directory, `off` turns
+ * caching off, and anything else keeps them in this process's memory.
+ */
+export function createResultCacheFromEnv(): ResultCacheStore | null {
+  const id = process.env.RESULT_CACHE?.trim().toLowerCase();
+  const maxEntries = resultCacheMaxEntries();
+
+  if (id === "off") {
+    return null;
+  }
+
+  if (id === "disk") {
+    return createDiskResultCache({
+      dir: path.join(dataDirectory(), "result-cache"),
+      maxEntries,
+    });
+  }
+
+  return createMemoryResultCache({ maxEntries });
+}
+
+let cachedStore: ResultCacheStore | null | undefined;
+
+export function getResultCache() {
+  if (cachedStore === undefined) {
+    cachedStore = createResultCacheFromEnv();
+  }
+  return cachedStore;
+}
+
+/** Cache failures are logged and treated as a miss. */
+export async function readCachedResult(key: string) {
+  try {
+    return (await getResultCache()?.get(key, Date.now())) ?? null;
+  } catch (error) {
+    console.error("Result cache read failed", error);
+    return null;
+  }
+}
+
+/** Cache failures are logged; the caller still has its result. */
+export async function storeCachedResult(key: string, result: GenerationResult) {
+  try {
+    await getResultCache()?.set(key, {
+      expiresAt: Date.now() + resultCacheTtlMs(),
+      result,
+    });
+  } catch (error) {
+    console.error("Result cache write failed", error);
+  }
+}
@@ -0,0 +1,91 @@
+type StreamEvent = { type: string };
+
+const encoder = new TextEncoder();
+
+export function encodeEvent(event: StreamEvent) {
+  return encoder.encode(
+    `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+  );
+}
+
+/**
+ * Wraps an async producer in a `text/event-stream` response. The stream
+ * closes when `run` settles; an exception that escapes `run` is logged and
+ * simply ends the stream. Once the client disconnects, `send` becomes a
+ * no-op; `run` should watch the request's signal to stop its own work.
+ */
+export function createEventStreamResponse<T extends StreamEvent>(
+  run: (send: (event: T) => void) => Promise<void>,
+) {
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: T) => {
+        if (closed) return;
+        controller.enqueue(encodeEvent(event));
+      };
+
+      try {
+        await run(send);
+      } catch (error) {
+        console.error("Event stream failed", error);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Reads a `text/event-stream` body produced by `createEventStreamResponse`,
+ * calling `onEvent` with each decoded `data:` payload.
+ */
+export async function readEventStream<T extends StreamEvent>(
+  response: Response,
+  onEvent: (event: T) => void,
+) {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+
+      if (data) {
+        onEvent(JSON.parse(data) as T);
+      }
+    }
+  }
+}
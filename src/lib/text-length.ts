@@ -0,0 +1,48 @@
+const segmenter =
+  typeof Intl !== "undefined" && "Segmenter" in Intl
+    ? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+    : null;
+
+function graphemes(text: string) {
+  if (!segmenter) return Array.from(text);
+  return Array.from(segmenter.segment(text), (part) => part.segment);
+}
+
+/**
+ * Counts user-perceived characters, so a flag or a family emoji counts as
+ * one, the way the networks' own counters do.
+ */
+export function countGraphemes(text: string) {
+  return graphemes(text).length;
+}
+
+const sentenceEnd = /[.!?…](?=["'”’)\]]*(\s|$))/g;
+const ellipsis = "…";
+
+/**
+ * Shortens `text` to at most `maxLength` graphemes. Prefers the last full
+ * sentence that fits, then the last whole word followed by an ellipsis, and
+ * only cuts mid-word when nothing else fits.
+ */
+export function trimToLength(text: string, maxLength: number) {
+  const parts = graphemes(text);
+  if (parts.length <= maxLength) return text;
+
+  const head = parts.slice(0, maxLength).join("");
+
+  let sentenceCut = -1;
+  for (const match of head.matchAll(sentenceEnd)) {
+    sentenceCut = match.index + match[0].length;
+  }
+  if (sentenceCut > 0) {
+    return head.slice(0, sentenceCut).trim();
+  }
+
+  const room = parts.slice(0, maxLength - 1).join("");
+  const wordCut = room.replace(/\s+\S*$/, "").replace(/[\s,;:–—-]+$/, "");
+  if (wordCut.length > 0 && wordCut.length < room.length) {
+    return `${wordCut}${ellipsis}`;
+  }
+
+  return `${room.trimEnd()}${ellipsis}`;
+}